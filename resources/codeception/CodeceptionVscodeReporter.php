@@ -0,0 +1,112 @@
+<?php
+
+use Codeception\Event\FailEvent;
+use Codeception\Event\TestEvent;
+use Codeception\Events;
+use Codeception\Extension;
+use Codeception\Test\Descriptor;
+
+/**
+ * Codeception extension reporting per-test events to the Codeception Test Explorer VS Code extension.
+ *
+ * Loaded with `--bootstrap <this file> --ext CodeceptionVscodeReporter`. Every event is written to STDERR as one
+ * line: the marker followed by a JSON object, so the adapter can tell events from the regular console output.
+ */
+class CodeceptionVscodeReporter extends Extension
+{
+    public const MARKER = '##codeception-vscode ';
+
+    public static function getSubscribedEvents(): array
+    {
+        return [
+            Events::TEST_START => 'testStarted',
+            Events::TEST_SUCCESS => 'testPassed',
+            Events::TEST_FAIL => 'testFailed',
+            Events::TEST_ERROR => 'testErrored',
+            Events::TEST_SKIPPED => 'testSkipped',
+            Events::TEST_INCOMPLETE => 'testIncomplete',
+        ];
+    }
+
+    public function testStarted(TestEvent $event): void
+    {
+        $this->report('started', $event);
+    }
+
+    public function testPassed(TestEvent $event): void
+    {
+        $this->report('passed', $event);
+    }
+
+    public function testFailed(FailEvent $event): void
+    {
+        $this->report('failed', $event, $event->getFail());
+    }
+
+    public function testErrored(FailEvent $event): void
+    {
+        $this->report('errored', $event, $event->getFail());
+    }
+
+    public function testSkipped(FailEvent $event): void
+    {
+        $this->report('skipped', $event, $event->getFail());
+    }
+
+    public function testIncomplete(FailEvent $event): void
+    {
+        $this->report('incomplete', $event, $event->getFail());
+    }
+
+    private function report(string $type, TestEvent $event, ?Throwable $fail = null): void
+    {
+        $test = $event->getTest();
+        $file = method_exists($test, 'getFileName') ? $test->getFileName() : null;
+
+        $data = [
+            'event' => $type,
+            'test' => Descriptor::getTestFullName($test),
+            'file' => $file,
+        ];
+
+        if ($type !== 'started') {
+            $data['duration'] = $event->getTime();
+        }
+
+        if ($fail !== null) {
+            $data['message'] = $fail->getMessage();
+            $data['trace'] = $fail->getTraceAsString();
+            $data['line'] = $this->findLine($fail, $file);
+
+            $comparison = method_exists($fail, 'getComparisonFailure') ? $fail->getComparisonFailure() : null;
+            if ($comparison !== null) {
+                $data['expected'] = $comparison->getExpectedAsString();
+                $data['actual'] = $comparison->getActualAsString();
+            }
+        }
+
+        fwrite(STDERR, self::MARKER . json_encode($data, JSON_UNESCAPED_SLASHES | JSON_PARTIAL_OUTPUT_ON_ERROR) . PHP_EOL);
+    }
+
+    /**
+     * Line of the test file where the failure happened, if it is on the stack
+     */
+    private function findLine(Throwable $fail, ?string $file): ?int
+    {
+        if ($file === null) {
+            return null;
+        }
+
+        if ($fail->getFile() === $file) {
+            return $fail->getLine();
+        }
+
+        foreach ($fail->getTrace() as $frame) {
+            if (($frame['file'] ?? null) === $file && isset($frame['line'])) {
+                return $frame['line'];
+            }
+        }
+
+        return null;
+    }
+}
@@ -0,0 +1,130 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import * as glob from 'glob';
+import { CodeceptionProject, CodeceptionSuite } from './types';
+
+/**
+ * Detects suites whose generated actor actions (<paths.support>/_generated/<Actor>Actions.php) are out of date
+ * An actor is stale when its actions trait is missing or older than the project config, the suite config,
+ * or a helper/module file in the support directory. Suites found up to date are only checked again
+ * once one of those files changes.
+ */
+export class ActorBuildTracker {
+    private outputChannel: vscode.OutputChannel;
+    // Suites whose actors were found up to date (or whose build was declined) since their sources last changed
+    private upToDate = new Set<string>();
+
+    constructor(outputChannel: vscode.OutputChannel) {
+        this.outputChannel = outputChannel;
+    }
+
+    /**
+     * Check again the suites affected by a changed file (config, helper or module)
+     * @param suites Discovered suites, by suite ID
+     */
+    public handleChangedFile(filePath: string, suites: Map<string, { project: CodeceptionProject; suite: CodeceptionSuite }>): void {
+        for (const [suiteId, { project, suite }] of suites) {
+            if (this.upToDate.has(suiteId) && this.isSourceFile(filePath, project, suite)) {
+                this.upToDate.delete(suiteId);
+                this.outputChannel.appendLine(`[Build] ${suite.name}: ${path.basename(filePath)} changed - actor will be checked before the next run`);
+            }
+        }
+    }
+
+    /**
+     * Find the stale actors among suites
+     * @returns Why each stale suite needs a build, by suite ID
+     */
+    public findStale(suites: Array<{ suiteId: string; project: CodeceptionProject; suite: CodeceptionSuite }>): Map<string, string> {
+        const stale = new Map<string, string>();
+
+        for (const { suiteId, project, suite } of suites) {
+            if (this.upToDate.has(suiteId)) {
+                continue;
+            }
+
+            const reason = this.getStaleReason(project, suite);
+            if (reason) {
+                stale.set(suiteId, reason);
+            } else {
+                this.upToDate.add(suiteId);
+            }
+        }
+
+        return stale;
+    }
+
+    /**
+     * Remember suites as up to date (after a build, or when the user declined one)
+     */
+    public markUpToDate(suiteIds: string[]): void {
+        suiteIds.forEach(suiteId => this.upToDate.add(suiteId));
+    }
+
+    public clear(): void {
+        this.upToDate.clear();
+    }
+
+    /**
+     * Compare the generated actions of a suite's actor with the files they are built from
+     * @returns Why the actor is stale, or undefined when it is up to date (or the suite has no actor)
+     */
+    private getStaleReason(project: CodeceptionProject, suite: CodeceptionSuite): string | undefined {
+        if (!suite.actor || !fs.existsSync(project.supportDir)) {
+            return undefined;
+        }
+
+        const actionsFile = `${suite.actor.split('\\').pop()}Actions.php`;
+        const actionsPath = path.join(project.supportDir, '_generated', actionsFile);
+        let builtAt: number;
+        try {
+            builtAt = fs.statSync(actionsPath).mtimeMs;
+        } catch {
+            return `${actionsFile} has not been generated`;
+        }
+
+        const supportFiles = glob.sync('**/*.php', {
+            cwd: project.supportDir,
+            absolute: true,
+            ignore: ['_generated/**'],
+        });
+
+        for (const sourcePath of [...this.getConfigFiles(project, suite), ...supportFiles]) {
+            try {
+                if (fs.statSync(sourcePath).mtimeMs > builtAt) {
+                    return `${path.basename(sourcePath)} changed after ${actionsFile} was generated`;
+                }
+            } catch {
+                // Optional files (.dist variants) may not exist
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Check whether a file is one a suite's actor actions are built from: a config, or a support class (helper, module)
+     */
+    private isSourceFile(filePath: string, project: CodeceptionProject, suite: CodeceptionSuite): boolean {
+        if (this.getConfigFiles(project, suite).includes(filePath)) {
+            return true;
+        }
+
+        const supportPath = path.relative(project.supportDir, filePath);
+        return filePath.endsWith('.php') && !supportPath.startsWith('..') && !path.isAbsolute(supportPath) &&
+            !supportPath.split(path.sep).includes('_generated');
+    }
+
+    /**
+     * List the config files that can configure a suite's modules (.dist variants included)
+     */
+    private getConfigFiles(project: CodeceptionProject, suite: CodeceptionSuite): string[] {
+        return [
+            project.configPath,
+            project.configPath.replace(/(?<!\.dist)\.yml$/, '.dist.yml'),
+            path.join(project.testsDir, `${suite.name}.suite.yml`),
+            path.join(project.testsDir, `${suite.name}.suite.dist.yml`),
+        ];
+    }
+}
@@ -0,0 +1,207 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import * as glob from 'glob';
+import { parse as parseYaml } from 'yaml';
+import { CodeceptionProject, CodeceptionSuite } from './types';
+
+// Guards against include cycles (a project including one of its ancestors)
+const MAX_INCLUDE_DEPTH = 5;
+
+/**
+ * Reader for Codeception's configuration files
+ * Resolves codeception.yml (or codeception.dist.yml), suite configs and `include:` projects
+ */
+export class CodeceptionConfigReader {
+    private outputChannel: vscode.OutputChannel;
+
+    constructor(outputChannel: vscode.OutputChannel) {
+        this.outputChannel = outputChannel;
+    }
+
+    /**
+     * Find the Codeception config file in a directory
+     * @param rootDir Directory to look in
+     * @param configFile Configured file name/path (relative to rootDir), e.g. "codeception.yml"
+     * @returns Absolute config path, or null if neither the configured file nor a .dist variant exists
+     */
+    public findConfigFile(rootDir: string, configFile: string = 'codeception.yml'): string | null {
+        const candidates = [configFile];
+
+        // codeception.yml and codeception.dist.yml are interchangeable
+        if (configFile.endsWith('.dist.yml')) {
+            candidates.push(configFile.replace(/\.dist\.yml$/, '.yml'));
+        } else if (configFile.endsWith('.yml')) {
+            candidates.push(configFile.replace(/\.yml$/, '.dist.yml'));
+        }
+
+        for (const candidate of candidates) {
+            const candidatePath = path.resolve(rootDir, candidate);
+            if (fs.existsSync(candidatePath)) {
+                return candidatePath;
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Load a Codeception project from its config file
+     * @param configPath Absolute path to codeception.yml
+     * @returns The project with its suites and included projects, or null if the config can't be read
+     */
+    public loadProject(configPath: string, depth: number = 0): CodeceptionProject | null {
+        const config = this.readConfig(configPath);
+        if (!config) {
+            return null;
+        }
+
+        const rootDir = path.dirname(configPath);
+        const paths = config.paths || {};
+        const testsDir = path.resolve(rootDir, String(paths.tests || 'tests'));
+        // Codeception < 5 called the output directory "log"
+        const outputDir = path.resolve(rootDir, String(paths.output || paths.log || path.join(path.relative(rootDir, testsDir), '_output')));
+        const envsDir = path.resolve(rootDir, String(paths.envs || path.join(path.relative(rootDir, testsDir), '_envs')));
+        const supportDir = path.resolve(rootDir, String(paths.support || path.join(path.relative(rootDir, testsDir), '_support')));
+
+        const project: CodeceptionProject = {
+            configPath,
+            rootDir,
+            testsDir,
+            outputDir,
+            supportDir,
+            suites: this.resolveSuites(config, testsDir),
+            envs: this.resolveEnvs(envsDir),
+            includes: [],
+        };
+
+        if (Array.isArray(config.include) && depth < MAX_INCLUDE_DEPTH) {
+            for (const includePattern of config.include) {
+                // Include entries are directories (globs allowed) holding their own codeception.yml
+                const includeDirs = glob.sync(String(includePattern), { cwd: rootDir, absolute: true });
+                for (const includeDir of includeDirs) {
+                    const includeConfig = this.findConfigFile(includeDir);
+                    if (!includeConfig) {
+                        this.outputChannel.appendLine(`[Config] No codeception.yml found in included path: ${includeDir}`);
+                        continue;
+                    }
+
+                    const included = this.loadProject(includeConfig, depth + 1);
+                    if (included) {
+                        project.includes.push(included);
+                    }
+                }
+            }
+        }
+
+        return project;
+    }
+
+    /**
+     * Read and merge a config file with its .dist counterpart (the non-dist file wins)
+     */
+    private readConfig(configPath: string): any | null {
+        const distPath = configPath.replace(/(?<!\.dist)\.yml$/, '.dist.yml');
+        let config: any = {};
+
+        if (distPath !== configPath && fs.existsSync(distPath)) {
+            config = this.readYaml(distPath) || {};
+        }
+
+        const ownConfig = this.readYaml(configPath);
+        if (!ownConfig && Object.keys(config).length === 0) {
+            return null;
+        }
+
+        return this.mergeConfig(config, ownConfig || {});
+    }
+
+    /**
+     * Resolve the suites of a project
+     * Suites come from the `suites:` key when present, otherwise from *.suite.yml files in the tests directory
+     */
+    private resolveSuites(config: any, testsDir: string): CodeceptionSuite[] {
+        const inlineSuites: Record<string, any> = {};
+        let suiteNames: string[] = [];
+
+        if (Array.isArray(config.suites)) {
+            suiteNames = config.suites.map((suite: any) => String(suite));
+        } else if (config.suites && typeof config.suites === 'object') {
+            // Codeception 5 allows suite configuration inline in codeception.yml
+            for (const [name, suiteConfig] of Object.entries(config.suites)) {
+                suiteNames.push(name);
+                inlineSuites[name] = suiteConfig || {};
+            }
+        } else if (fs.existsSync(testsDir)) {
+            const suiteFiles = glob.sync('*.suite{,.dist}.yml', { cwd: testsDir });
+            suiteNames = Array.from(new Set(suiteFiles.map(file => file.replace(/\.suite(\.dist)?\.yml$/, ''))));
+        }
+
+        return suiteNames.sort().map(name => {
+            const suiteConfig = this.mergeConfig(
+                inlineSuites[name] || {},
+                this.readYaml(path.join(testsDir, `${name}.suite.dist.yml`)) || {},
+                this.readYaml(path.join(testsDir, `${name}.suite.yml`)) || {}
+            );
+
+            return {
+                name,
+                // `path` overrides the suite directory (relative to the tests directory)
+                path: path.resolve(testsDir, String(suiteConfig.path ?? name)),
+                // Codeception names actors after the suite unless the suite config sets one
+                actor: String(suiteConfig.actor ?? `${name.charAt(0).toUpperCase()}${name.slice(1)}${config.actor_suffix ?? 'Tester'}`),
+            };
+        });
+    }
+
+    /**
+     * List the environments defined in the envs directory (one YAML file per environment)
+     */
+    public resolveEnvs(envsDir: string): string[] {
+        if (!fs.existsSync(envsDir)) {
+            return [];
+        }
+
+        const envFiles = glob.sync('*.yml', { cwd: envsDir });
+        return Array.from(new Set(envFiles.map(file => file.replace(/(\.dist)?\.yml$/, '')))).sort();
+    }
+
+    /**
+     * Parse a YAML file, returning null when it is missing or invalid
+     */
+    private readYaml(filePath: string): any | null {
+        if (!fs.existsSync(filePath)) {
+            return null;
+        }
+
+        try {
+            const parsed = parseYaml(fs.readFileSync(filePath, 'utf-8'));
+            return parsed && typeof parsed === 'object' ? parsed : null;
+        } catch (error: any) {
+            const errorMessage = error?.message || String(error);
+            this.outputChannel.appendLine(`[Config] ERROR parsing ${filePath}: ${errorMessage}`);
+            return null;
+        }
+    }
+
+    /**
+     * Deep-merge config objects the way Codeception does (later values override earlier ones)
+     */
+    private mergeConfig(...configs: any[]): any {
+        const result: any = {};
+
+        for (const config of configs) {
+            for (const [key, value] of Object.entries(config || {})) {
+                const existing = result[key];
+                if (existing && typeof existing === 'object' && !Array.isArray(existing) &&
+                    value && typeof value === 'object' && !Array.isArray(value)) {
+                    result[key] = this.mergeConfig(existing, value);
+                } else {
+                    result[key] = value;
+                }
+            }
+        }
+
+        return result;
+    }
+}
@@ -0,0 +1,166 @@
+import * as vscode from 'vscode';
+
+/**
+ * A continuous run started from a run profile, active until its token is cancelled
+ */
+interface ContinuousRunWatcher {
+    request: vscode.TestRunRequest;
+    token: vscode.CancellationToken;
+    coverage: boolean;
+}
+
+/**
+ * Continuous run support for the Run and Run with Coverage profiles
+ * Changed test files rerun their watched tests; changed source files rerun the tests whose single-test
+ * coverage runs touched them. Reruns are queued one at a time so saves never start overlapping Codeception processes.
+ */
+export class ContinuousRunManager {
+    private outputChannel: vscode.OutputChannel;
+    private runTests: (request: vscode.TestRunRequest, token: vscode.CancellationToken, coverage: boolean) => Promise<void>;
+    private getTestsForFile: (filePath: string) => vscode.TestItem[];
+    private findTestItem: (testId: string) => vscode.TestItem | undefined;
+    private isWithin: (test: vscode.TestItem, ancestor: vscode.TestItem) => boolean;
+    private watchers = new Set<ContinuousRunWatcher>();
+    // Tests waiting to rerun, per watcher (collected while a rerun is in progress)
+    private pending = new Map<ContinuousRunWatcher, Set<vscode.TestItem>>();
+    private isRunning = false;
+    // IDs of the tests whose single-test coverage runs executed each source file
+    private coveredBy = new Map<string, Set<string>>();
+
+    constructor(
+        outputChannel: vscode.OutputChannel,
+        runTests: (request: vscode.TestRunRequest, token: vscode.CancellationToken, coverage: boolean) => Promise<void>,
+        getTestsForFile: (filePath: string) => vscode.TestItem[],
+        findTestItem: (testId: string) => vscode.TestItem | undefined,
+        isWithin: (test: vscode.TestItem, ancestor: vscode.TestItem) => boolean
+    ) {
+        this.outputChannel = outputChannel;
+        this.runTests = runTests;
+        this.getTestsForFile = getTestsForFile;
+        this.findTestItem = findTestItem;
+        this.isWithin = isWithin;
+    }
+
+    /**
+     * Watch for changes until the continuous run is cancelled
+     */
+    public watch(request: vscode.TestRunRequest, token: vscode.CancellationToken, coverage: boolean): Promise<void> {
+        const watcher: ContinuousRunWatcher = { request, token, coverage };
+        this.watchers.add(watcher);
+        this.outputChannel.appendLine(`[ContinuousRun] Started${coverage ? ' (with coverage)' : ''}`);
+
+        return new Promise(resolve => {
+            const cancellation = token.onCancellationRequested(() => {
+                cancellation.dispose();
+                this.watchers.delete(watcher);
+                this.pending.delete(watcher);
+                this.outputChannel.appendLine('[ContinuousRun] Stopped');
+                resolve();
+            });
+        });
+    }
+
+    /**
+     * Remember which source files a coverage run of a single test item executed
+     * Coverage is not reported per test, so runs of several items are skipped: mapping their files to
+     * every item would rerun the whole set on each save.
+     */
+    public recordCoverage(tests: readonly vscode.TestItem[], coveredFiles: string[]): void {
+        if (tests.length !== 1) {
+            this.outputChannel.appendLine(
+                `[ContinuousRun] Coverage of ${tests.length} test items not used to select reruns (run a single test item with coverage)`
+            );
+            return;
+        }
+
+        const testId = tests[0].id;
+        for (const filePath of coveredFiles) {
+            const testIds = this.coveredBy.get(filePath) || new Set<string>();
+            testIds.add(testId);
+            this.coveredBy.set(filePath, testIds);
+        }
+    }
+
+    /**
+     * Queue reruns for changed files (test files, or source files known from coverage)
+     */
+    public handleChangedFiles(filePaths: string[]): void {
+        if (this.watchers.size === 0) {
+            return;
+        }
+
+        for (const watcher of this.watchers) {
+            const affected = this.pending.get(watcher) || new Set<vscode.TestItem>();
+
+            for (const filePath of filePaths) {
+                const fileTests = this.getTestsForFile(filePath);
+                // Items are looked up again by ID: re-parsing replaces them
+                const tests = fileTests.length > 0
+                    ? fileTests
+                    : Array.from(this.coveredBy.get(filePath) || []).map(id => this.findTestItem(id));
+                for (const test of tests) {
+                    if (!test) {
+                        continue;
+                    }
+                    this.selectWatched(test, watcher.request).forEach(selected => affected.add(selected));
+                }
+            }
+
+            if (affected.size > 0) {
+                this.pending.set(watcher, affected);
+            }
+        }
+
+        this.processQueue();
+    }
+
+    /**
+     * Run queued reruns one after another
+     */
+    private async processQueue(): Promise<void> {
+        if (this.isRunning) {
+            return;
+        }
+
+        this.isRunning = true;
+        try {
+            while (this.pending.size > 0) {
+                const [watcher, tests] = this.pending.entries().next().value as [ContinuousRunWatcher, Set<vscode.TestItem>];
+                this.pending.delete(watcher);
+                if (watcher.token.isCancellationRequested) {
+                    continue;
+                }
+
+                this.outputChannel.appendLine(`[ContinuousRun] Rerunning ${tests.size} test item(s)`);
+                const request = new vscode.TestRunRequest(Array.from(tests), watcher.request.exclude, watcher.request.profile);
+                try {
+                    await this.runTests(request, watcher.token, watcher.coverage);
+                } catch (error: any) {
+                    const errorMessage = error?.message || String(error);
+                    this.outputChannel.appendLine(`[ContinuousRun] ERROR: ${errorMessage}`);
+                }
+            }
+        } finally {
+            this.isRunning = false;
+        }
+    }
+
+    /**
+     * Narrow a changed test item to what a continuous run watches
+     * @returns The item itself when it is watched, the watched items inside it, or nothing
+     */
+    private selectWatched(test: vscode.TestItem, request: vscode.TestRunRequest): vscode.TestItem[] {
+        if (request.exclude?.some(excluded => this.isWithin(test, excluded))) {
+            return [];
+        }
+
+        if (!request.include || request.include.some(included => this.isWithin(test, included))) {
+            return [test];
+        }
+
+        return request.include
+            .filter(included => this.isWithin(included, test))
+            .map(included => this.findTestItem(included.id))
+            .filter((item): item is vscode.TestItem => item !== undefined);
+    }
+}
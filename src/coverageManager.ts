@@ -4,10 +4,12 @@ import * as path from 'path';
 
 /**
  * Manages coverage file lifecycle with proper cleanup
- * Tracks temporary coverage files and ensures they are deleted
+ * Tracks temporary coverage files and per-run output directories, and ensures they are deleted
  */
 export class CoverageManager implements vscode.Disposable {
     private trackedFiles: Set<string> = new Set();
+    private trackedDirectories: Set<string> = new Set();
+    private runCounter = 0;
     private outputChannel: vscode.OutputChannel;
 
     constructor(outputChannel: vscode.OutputChannel) {
@@ -30,42 +32,43 @@ export class CoverageManager implements vscode.Disposable {
     }
 
     /**
-     * Generate a unique coverage file path for a test run
-     * @param workspaceRoot Workspace root directory
-     * @param suite Optional suite name for better organization
-     * @param dockerWorkdir Optional Docker working directory for path conversion
-     * @returns Unique coverage file path (container path if Docker is used, host path otherwise)
+     * Create a unique ID for a test run, used as the name of its output directories
+     * Every run writes its reports, coverage and failed list there, so concurrent runs never overwrite each other.
      */
-    public generateCoverageFilePath(workspaceRoot: string, suite?: string, dockerWorkdir?: string): string {
-        const timestamp = Date.now();
-        const suitePrefix = suite ? `${suite}-` : '';
-        const fileName = `coverage-${suitePrefix}${timestamp}.xml`;
-        
-        // Use Codeception's default output directory if it exists, otherwise use workspace root
-        const outputDir = path.join(workspaceRoot, 'tests', '_output');
-        const coverageDir = fs.existsSync(outputDir) ? outputDir : workspaceRoot;
-        
-        // Generate host path first
-        const hostPath = path.join(coverageDir, fileName);
-        
-        // If Docker is being used, convert to container path
-        let coveragePath = hostPath;
-        if (dockerWorkdir) {
-            // Calculate relative path from workspace root
-            const relativePath = path.relative(workspaceRoot, hostPath);
-            // Convert to container path using POSIX separators (Docker uses Linux paths)
-            coveragePath = path.posix.join(dockerWorkdir, relativePath.split(path.sep).join(path.posix.sep));
-            // DEV: Uncomment for debugging
-            // this.outputChannel.appendLine(`[CoverageManager] Docker path conversion: ${hostPath} -> ${coveragePath}`);
+    public createRunId(): string {
+        return `vscode-run-${Date.now()}-${++this.runCounter}`;
+    }
+
+    /**
+     * Register the output directory of a run for cleanup
+     * @param dirPath Host path of the directory
+     */
+    public registerRunDirectory(dirPath: string): void {
+        if (!dirPath) {
+            return;
+        }
+
+        this.trackedDirectories.add(path.normalize(dirPath));
+    }
+
+    /**
+     * Remove the output directory of a finished run
+     * Handles errors gracefully and logs them
+     * @param dirPath Host path of the directory
+     */
+    public async cleanupRunDirectory(dirPath: string): Promise<void> {
+        const normalizedPath = path.normalize(dirPath);
+
+        try {
+            await fs.promises.rm(normalizedPath, { recursive: true, force: true });
+            this.trackedDirectories.delete(normalizedPath);
+        } catch (error: any) {
+            const errorMessage = error?.message || String(error);
+            this.outputChannel.appendLine(`ERROR cleaning up run directory ${normalizedPath}: ${errorMessage}`);
+            // Keep directory in tracked set so we can try again later
         }
-        
-        // Register the HOST path for cleanup (we need to clean up the file on the host)
-        this.registerCoverageFile(hostPath);
-        
-        // Return the appropriate path (container path for command, host path for cleanup)
-        return coveragePath;
     }
-    
+
     /**
      * Get the host path for a coverage file (for cleanup purposes)
      * When using Docker, the command uses container paths but cleanup needs host paths
@@ -137,16 +140,19 @@ export class CoverageManager implements vscode.Disposable {
     }
 
     /**
-     * Clean up all tracked coverage files
+     * Clean up all tracked coverage files and run directories
      * Called on extension deactivation or shutdown
      */
     public async cleanupAllCoverageFiles(): Promise<void> {
-        if (this.trackedFiles.size === 0) {
+        if (this.trackedFiles.size === 0 && this.trackedDirectories.size === 0) {
             return;
         }
 
         const filesToCleanup = Array.from(this.trackedFiles);
-        const cleanupPromises = filesToCleanup.map(file => this.cleanupCoverageFile(file));
+        const cleanupPromises = [
+            ...filesToCleanup.map(file => this.cleanupCoverageFile(file)),
+            ...Array.from(this.trackedDirectories).map(dir => this.cleanupRunDirectory(dir)),
+        ];
 
         try {
             await Promise.allSettled(cleanupPromises);
@@ -171,6 +177,7 @@ export class CoverageManager implements vscode.Disposable {
     public async dispose(): Promise<void> {
         await this.cleanupAllCoverageFiles();
         this.trackedFiles.clear();
+        this.trackedDirectories.clear();
     }
 }
 
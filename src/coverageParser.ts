@@ -274,6 +274,41 @@ export class CoverageParser {
         return fileCoverages;
     }
 
+    /**
+     * Merge coverage from several runs (e.g. parallel shards), summing execution counts per line
+     * @param coverageMaps Coverage data of each run
+     * @returns Combined map of file paths to coverage data
+     */
+    public mergeCoverage(coverageMaps: Array<Map<string, FileCoverageData>>): Map<string, FileCoverageData> {
+        const merged = new Map<string, Map<number, number>>();
+
+        for (const coverageMap of coverageMaps) {
+            for (const [filePath, data] of coverageMap.entries()) {
+                let lines = merged.get(filePath);
+                if (!lines) {
+                    lines = new Map<number, number>();
+                    merged.set(filePath, lines);
+                }
+
+                for (const line of data.lines) {
+                    lines.set(line.lineNumber, (lines.get(line.lineNumber) || 0) + line.executionCount);
+                }
+            }
+        }
+
+        const result = new Map<string, FileCoverageData>();
+        for (const [filePath, lines] of merged.entries()) {
+            result.set(filePath, {
+                filePath,
+                lines: Array.from(lines.entries())
+                    .sort(([a], [b]) => a - b)
+                    .map(([lineNumber, executionCount]) => ({ lineNumber, executionCount }))
+            });
+        }
+
+        return result;
+    }
+
     /**
      * Calculate coverage summary statistics
      * @param coverageData Map of file paths to coverage data
@@ -0,0 +1,130 @@
+import * as vscode from 'vscode';
+
+// Extension providing the "php" debug type (Xdebug adapter)
+const PHP_DEBUG_EXTENSION = 'xdebug.php-debug';
+
+// Default Xdebug 3 client port
+const DEFAULT_XDEBUG_PORT = 9003;
+
+/**
+ * A PHP debug session listening for the Xdebug connection of a test run
+ */
+export interface XdebugListener {
+    session: vscode.DebugSession;
+    port: number;
+}
+
+/**
+ * Starts and stops php-debug sessions that listen for Xdebug while a test runs
+ * Uses the configured (or first) "Listen for Xdebug" launch configuration, or generates one on the fly.
+ */
+export class DebugSessionManager {
+    private outputChannel: vscode.OutputChannel;
+    private sessionCounter = 0;
+
+    constructor(outputChannel: vscode.OutputChannel) {
+        this.outputChannel = outputChannel;
+    }
+
+    /**
+     * Start a listening debug session
+     * @param folder Workspace folder whose launch configurations are used
+     * @param options.configurationName Name of the launch configuration to use (the first listening php one by default)
+     * @param options.port Port of a generated configuration
+     * @param options.pathMappings Container to host path mappings (Docker runs)
+     * @returns The session and the port it listens on, or undefined when it couldn't be started
+     */
+    public async start(
+        folder: vscode.WorkspaceFolder | undefined,
+        options: { configurationName?: string; port?: number; pathMappings?: Record<string, string> } = {}
+    ): Promise<XdebugListener | undefined> {
+        if (!vscode.extensions.getExtension(PHP_DEBUG_EXTENSION)) {
+            vscode.window.showErrorMessage(
+                'Debugging Codeception tests requires the PHP Debug extension (xdebug.php-debug).',
+                'Install'
+            ).then(selection => {
+                if (selection === 'Install') {
+                    vscode.commands.executeCommand('workbench.extensions.installExtension', PHP_DEBUG_EXTENSION);
+                }
+            });
+            return undefined;
+        }
+
+        const configuration = this.resolveConfiguration(folder, options);
+        const port = Number(configuration.port) || DEFAULT_XDEBUG_PORT;
+
+        // Tag the configuration to recognise its session among the ones being started
+        const sessionId = `codeception-${++this.sessionCounter}`;
+        configuration.codeceptionSessionId = sessionId;
+
+        let session: vscode.DebugSession | undefined;
+        const listener = vscode.debug.onDidStartDebugSession(started => {
+            if (started.configuration.codeceptionSessionId === sessionId) {
+                session = started;
+            }
+        });
+
+        try {
+            const started = await vscode.debug.startDebugging(folder, configuration);
+            if (!started || !session) {
+                this.outputChannel.appendLine(`[Debug] Failed to start debug session "${configuration.name}"`);
+                return undefined;
+            }
+        } finally {
+            listener.dispose();
+        }
+
+        this.outputChannel.appendLine(`[Debug] Listening for Xdebug on port ${port} ("${configuration.name}")`);
+        return { session, port };
+    }
+
+    /**
+     * End a debug session (once the test process has exited)
+     */
+    public async stop(listener: XdebugListener): Promise<void> {
+        try {
+            await vscode.debug.stopDebugging(listener.session);
+            this.outputChannel.appendLine('[Debug] Debug session ended');
+        } catch (error: any) {
+            const errorMessage = error?.message || String(error);
+            this.outputChannel.appendLine(`[Debug] ERROR stopping debug session: ${errorMessage}`);
+        }
+    }
+
+    /**
+     * Pick the launch configuration to start: the named one, the first listening php one, or a generated one
+     * Path mappings are added to it unless it defines its own.
+     */
+    private resolveConfiguration(
+        folder: vscode.WorkspaceFolder | undefined,
+        options: { configurationName?: string; port?: number; pathMappings?: Record<string, string> }
+    ): vscode.DebugConfiguration {
+        const configurations = vscode.workspace.getConfiguration('launch', folder?.uri)
+            .get<vscode.DebugConfiguration[]>('configurations', []);
+
+        const existing = options.configurationName
+            ? configurations.find(configuration => configuration.name === options.configurationName)
+            : configurations.find(configuration =>
+                configuration.type === 'php' && configuration.request === 'launch' && !configuration.program
+            );
+
+        if (options.configurationName && !existing) {
+            this.outputChannel.appendLine(`[Debug] Launch configuration "${options.configurationName}" not found - generating one`);
+        }
+
+        const configuration: vscode.DebugConfiguration = existing
+            ? { ...existing }
+            : {
+                type: 'php',
+                request: 'launch',
+                name: 'Codeception: Listen for Xdebug',
+                port: options.port || DEFAULT_XDEBUG_PORT,
+            };
+
+        if (options.pathMappings && !configuration.pathMappings) {
+            configuration.pathMappings = options.pathMappings;
+        }
+
+        return configuration;
+    }
+}
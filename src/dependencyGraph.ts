@@ -0,0 +1,117 @@
+/**
+ * Graph of @depends relations between test methods, keyed by test item ID
+ * Used to pull prerequisites into a run in dependency order, and to report cycles and missing targets.
+ */
+export class TestDependencyGraph {
+    // Dependencies of each test: resolved target test IDs, or the raw annotation when it can't be resolved
+    private dependencies = new Map<string, Array<{ target: string; testId?: string }>>();
+
+    /**
+     * Set the dependencies of a test, replacing previous ones
+     */
+    public setDependencies(testId: string, dependencies: Array<{ target: string; testId?: string }>): void {
+        if (dependencies.length > 0) {
+            this.dependencies.set(testId, dependencies);
+        } else {
+            this.dependencies.delete(testId);
+        }
+    }
+
+    /**
+     * Remove the dependencies declared by the tests of a file (before it is re-parsed)
+     */
+    public removeFile(fileId: string): void {
+        for (const testId of Array.from(this.dependencies.keys())) {
+            if (testId.startsWith(`${fileId}::`)) {
+                this.dependencies.delete(testId);
+            }
+        }
+    }
+
+    public clear(): void {
+        this.dependencies.clear();
+    }
+
+    /**
+     * IDs of all tests that declare dependencies
+     */
+    public getDependentTests(): string[] {
+        return Array.from(this.dependencies.keys());
+    }
+
+    /**
+     * Find the problems of a test's dependencies: targets that don't resolve to a test, and cycles it is part of
+     * @param exists Whether a test ID refers to a discovered test
+     * @returns Human-readable errors (empty when the dependencies are valid)
+     */
+    public validate(testId: string, exists: (testId: string) => boolean): string[] {
+        const errors: string[] = [];
+
+        for (const dependency of this.dependencies.get(testId) || []) {
+            if (!dependency.testId || !exists(dependency.testId)) {
+                errors.push(`@depends ${dependency.target}: no such test`);
+            }
+        }
+
+        const cycle = this.findCycle(testId);
+        if (cycle) {
+            errors.push(`@depends cycle: ${cycle.map(id => id.split('::').pop()).join(' -> ')}`);
+        }
+
+        return errors;
+    }
+
+    /**
+     * Resolve the transitive prerequisites of a test, in the order they must run (dependencies first)
+     * The test itself is not included. Cycles are cut where they close.
+     */
+    public getPrerequisites(testId: string): string[] {
+        const ordered: string[] = [];
+        const visited = new Set<string>([testId]);
+
+        const visit = (currentId: string) => {
+            for (const dependency of this.dependencies.get(currentId) || []) {
+                if (dependency.testId && !visited.has(dependency.testId)) {
+                    visited.add(dependency.testId);
+                    visit(dependency.testId);
+                    ordered.push(dependency.testId);
+                }
+            }
+        };
+        visit(testId);
+
+        return ordered;
+    }
+
+    /**
+     * Find a dependency cycle going through a test
+     * @returns The cycle as test IDs (starting and ending with the test), or null if there is none
+     */
+    private findCycle(testId: string): string[] | null {
+        const path: string[] = [testId];
+        const visited = new Set<string>();
+
+        const visit = (currentId: string): boolean => {
+            for (const dependency of this.dependencies.get(currentId) || []) {
+                if (!dependency.testId) {
+                    continue;
+                }
+                if (dependency.testId === testId) {
+                    path.push(testId);
+                    return true;
+                }
+                if (!visited.has(dependency.testId)) {
+                    visited.add(dependency.testId);
+                    path.push(dependency.testId);
+                    if (visit(dependency.testId)) {
+                        return true;
+                    }
+                    path.pop();
+                }
+            }
+            return false;
+        };
+
+        return visit(testId) ? path : null;
+    }
+}
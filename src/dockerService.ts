@@ -1,8 +1,13 @@
 import * as vscode from 'vscode';
-import { exec } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { execFile } from 'child_process';
 import { promisify } from 'util';
 
-const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
+
+// Compose file names, in the order Docker Compose looks for them
+const COMPOSE_FILE_NAMES = ['compose.yaml', 'compose.yml', 'docker-compose.yaml', 'docker-compose.yml'];
 
 export interface DockerContainer {
     id: string;
@@ -27,7 +32,7 @@ export class DockerService {
     public async isDockerAvailable(): Promise<{ available: boolean; error?: string }> {
         try {
             // Try to get Docker version to verify it's installed and accessible
-            const { stdout, stderr } = await execAsync('docker --version', { timeout: 5000 });
+            const { stdout, stderr } = await execFileAsync('docker', ['--version'], { timeout: 5000 });
             
             if (stdout && stdout.toLowerCase().includes('docker version')) {
                 return { available: true };
@@ -76,8 +81,9 @@ export class DockerService {
     public async listRunningContainers(): Promise<DockerContainer[]> {
         try {
             // Use docker ps with custom format to get structured data
-            const { stdout, stderr } = await execAsync(
-                'docker ps --format "{{.ID}}\t{{.Names}}\t{{.Image}}\t{{.Status}}"',
+            const { stdout, stderr } = await execFileAsync(
+                'docker',
+                ['ps', '--format', '{{.ID}}\t{{.Names}}\t{{.Image}}\t{{.Status}}'],
                 { timeout: 10000 }
             );
 
@@ -140,13 +146,111 @@ export class DockerService {
         return containers;
     }
 
+    /**
+     * Build the command running a command inside a container
+     * @param command Executable and arguments to run in the container
+     * @param options.workdir Working directory inside the container
+     * @param options.env Environment variables of the command (passed with -e)
+     * @returns The docker exec argument vector
+     */
+    public buildExecCommand(
+        containerIdOrName: string,
+        command: string[],
+        options: { workdir?: string; env?: Record<string, string> } = {}
+    ): string[] {
+        const envArgs = Object.entries(options.env || {}).flatMap(([key, value]) => ['-e', `${key}=${value}`]);
+        const workdirArgs = options.workdir ? ['-w', options.workdir] : [];
+
+        return ['docker', 'exec', ...envArgs, ...workdirArgs, containerIdOrName, ...command];
+    }
+
+    /**
+     * Find the Compose files of a workspace folder: in the folder itself and its direct subdirectories (e.g. docker/)
+     * @returns Absolute paths, one per directory (the file Docker Compose would pick there)
+     */
+    public findComposeFiles(folderPath: string): string[] {
+        const directories = [folderPath];
+        try {
+            directories.push(...fs.readdirSync(folderPath, { withFileTypes: true })
+                .filter(entry => entry.isDirectory() && !entry.name.startsWith('.') && entry.name !== 'vendor' && entry.name !== 'node_modules')
+                .map(entry => path.join(folderPath, entry.name)));
+        } catch {
+            return [];
+        }
+
+        return directories
+            .map(directory => COMPOSE_FILE_NAMES.map(name => path.join(directory, name)).find(file => fs.existsSync(file)))
+            .filter((file): file is string => file !== undefined);
+    }
+
+    /**
+     * Read the project name and services of a Compose file (with its override file, as Docker Compose would)
+     */
+    public async getComposeProject(composeFile: string): Promise<{ name: string; services: string[] }> {
+        const { stdout } = await execFileAsync(
+            'docker',
+            ['compose', ...this.getComposeFileArgs(composeFile), 'config', '--format', 'json'],
+            { cwd: path.dirname(composeFile), timeout: 15000, maxBuffer: 10 * 1024 * 1024 }
+        );
+
+        const config = JSON.parse(stdout);
+        return { name: String(config.name || ''), services: Object.keys(config.services || {}) };
+    }
+
+    /**
+     * Find the running container of a Compose service through the labels Compose puts on its containers
+     * @returns The container name, or undefined when the service is not running
+     */
+    public async findServiceContainer(project: string, service: string): Promise<string | undefined> {
+        const { stdout } = await execFileAsync(
+            'docker',
+            [
+                'ps',
+                '--filter', `label=com.docker.compose.project=${project}`,
+                '--filter', `label=com.docker.compose.service=${service}`,
+                '--format', '{{.Names}}',
+            ],
+            { timeout: 10000 }
+        );
+
+        return stdout.split('\n').map(name => name.trim()).find(name => name.length > 0);
+    }
+
+    /**
+     * Build the command starting a Compose service in the background
+     * @returns The `docker compose up -d <service>` argument vector, to run from the Compose file's directory
+     */
+    public buildComposeUpCommand(composeFile: string, service: string): string[] {
+        return ['docker', 'compose', ...this.getComposeFileArgs(composeFile), 'up', '-d', service];
+    }
+
+    /**
+     * Start a Compose service in the background (`docker compose up -d <service>`)
+     * @throws When docker compose fails
+     */
+    public async startComposeService(composeFile: string, service: string): Promise<void> {
+        const [executable, ...args] = this.buildComposeUpCommand(composeFile, service);
+        await execFileAsync(executable, args, { cwd: path.dirname(composeFile), timeout: 300000 });
+    }
+
+    /**
+     * Get the -f arguments of a Compose file and of its override file (compose.override.yaml next to compose.yaml, ...)
+     */
+    private getComposeFileArgs(composeFile: string): string[] {
+        const extension = path.extname(composeFile);
+        const overrideFile = path.join(path.dirname(composeFile), `${path.basename(composeFile, extension)}.override${extension}`);
+
+        return fs.existsSync(overrideFile) ? ['-f', composeFile, '-f', overrideFile] : ['-f', composeFile];
+    }
+
     /**
      * Validate that a container exists and is running
      */
     public async validateContainer(containerIdOrName: string): Promise<boolean> {
         try {
-            const { stdout } = await execAsync(
-                `docker ps --filter "id=${containerIdOrName}" --filter "name=${containerIdOrName}" --format "{{.ID}}"`
+            const { stdout } = await execFileAsync(
+                'docker',
+                ['ps', '--filter', `id=${containerIdOrName}`, '--filter', `name=${containerIdOrName}`, '--format', '{{.ID}}']
             );
             
             return stdout.trim().length > 0;
@@ -163,31 +267,18 @@ export class DockerService {
         try {
             // Try to find the workspace path inside the container
             // First, try using the host path (works if paths are the same, e.g., WSL)
-            const { stdout: testPath } = await execAsync(
-                `docker exec ${containerIdOrName} test -d "${hostWorkspacePath}" && echo "exists" || echo "not found"`,
-                { timeout: 5000 }
-            );
-
-            if (testPath.trim() === 'exists') {
+            if (await this.testInContainer(containerIdOrName, '-d', hostWorkspacePath)) {
                 return hostWorkspacePath;
             }
 
             // If host path doesn't exist, try to find it via pwd in common locations
             // Execute pwd in the container to see the default working directory
-            const { stdout: pwd } = await execAsync(
-                `docker exec ${containerIdOrName} pwd`,
-                { timeout: 5000 }
-            );
+            const { stdout: pwd } = await this.execInContainer(containerIdOrName, ['pwd'], 5000);
 
             const containerPwd = pwd.trim();
 
             // Check if codeception.yml exists in the pwd location
-            const { stdout: hasCodeception } = await execAsync(
-                `docker exec ${containerIdOrName} test -f "${containerPwd}/codeception.yml" && echo "exists" || echo "not found"`,
-                { timeout: 5000 }
-            );
-
-            if (hasCodeception.trim() === 'exists') {
+            if (await this.testInContainer(containerIdOrName, '-f', `${containerPwd}/codeception.yml`)) {
                 return containerPwd;
             }
 
@@ -195,17 +286,8 @@ export class DockerService {
             const commonPaths = ['/var/www/html', '/app', '/application', '/var/www', '/usr/src/app'];
             
             for (const path of commonPaths) {
-                try {
-                    const { stdout: exists } = await execAsync(
-                        `docker exec ${containerIdOrName} test -f "${path}/codeception.yml" && echo "exists" || echo "not found"`,
-                        { timeout: 5000 }
-                    );
-
-                    if (exists.trim() === 'exists') {
-                        return path;
-                    }
-                } catch (e) {
-                    // Continue to next path
+                if (await this.testInContainer(containerIdOrName, '-f', `${path}/codeception.yml`)) {
+                    return path;
                 }
             }
 
@@ -229,21 +311,13 @@ export class DockerService {
     public async readFileFromContainer(containerIdOrName: string, containerFilePath: string): Promise<string | null> {
         try {
             // First check if file exists in container
-            const { stdout: exists } = await execAsync(
-                `docker exec ${containerIdOrName} test -f "${containerFilePath}" && echo "exists" || echo "not found"`,
-                { timeout: 5000 }
-            );
-
-            if (exists.trim() !== 'exists') {
+            if (!await this.testInContainer(containerIdOrName, '-f', containerFilePath)) {
                 this.outputChannel.appendLine(`[Docker] File not found in container: ${containerFilePath}`);
                 return null;
             }
 
             // Read file contents using cat
-            const { stdout: content } = await execAsync(
-                `docker exec ${containerIdOrName} cat "${containerFilePath}"`,
-                { timeout: 10000 }
-            );
+            const { stdout: content } = await this.execInContainer(containerIdOrName, ['cat', containerFilePath], 10000);
 
             return content;
 
@@ -261,16 +335,28 @@ export class DockerService {
      * @returns true if file exists, false otherwise
      */
     public async fileExistsInContainer(containerIdOrName: string, containerFilePath: string): Promise<boolean> {
-        try {
-            const { stdout } = await execAsync(
-                `docker exec ${containerIdOrName} test -f "${containerFilePath}" && echo "exists" || echo "not found"`,
-                { timeout: 5000 }
-            );
+        return this.testInContainer(containerIdOrName, '-f', containerFilePath);
+    }
 
-            return stdout.trim() === 'exists';
-        } catch (error) {
+    /**
+     * Run `test <flag> <path>` inside a container
+     * @returns Whether the test succeeded (false as well when the container couldn't be reached)
+     */
+    private async testInContainer(containerIdOrName: string, flag: '-d' | '-f', containerPath: string): Promise<boolean> {
+        try {
+            await this.execInContainer(containerIdOrName, ['test', flag, containerPath], 5000);
+            return true;
+        } catch {
             return false;
         }
     }
-}
 
+    /**
+     * Run a command inside a container
+     * @throws When docker fails or the command exits with a non-zero code
+     */
+    private async execInContainer(containerIdOrName: string, command: string[], timeout: number): Promise<{ stdout: string }> {
+        const [executable, ...args] = this.buildExecCommand(containerIdOrName, command);
+        return execFileAsync(executable, args, { timeout });
+    }
+}
\ No newline at end of file
@@ -1,7 +1,9 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
 import { CodeceptionTestProvider } from './testProvider';
 import { DockerService } from './dockerService';
 import { CoverageManager } from './coverageManager';
+import { RunHistory } from './runHistory';
 
 // Global output channel for the extension
 export let outputChannel: vscode.OutputChannel;
@@ -25,9 +27,13 @@ export function activate(context: vscode.ExtensionContext) {
     const coverageManager = new CoverageManager(outputChannel);
     context.subscriptions.push(coverageManager);
 
+    // Per-test results of recent runs, kept in the workspace storage
+    const runHistory = new RunHistory(outputChannel, context.storageUri?.fsPath);
+    context.subscriptions.push(runHistory);
+
     try {
         // Create and register the test provider
-        const testProvider = new CodeceptionTestProvider(testController, outputChannel, coverageManager);
+        const testProvider = new CodeceptionTestProvider(testController, outputChannel, coverageManager, runHistory);
         
         // Register the test provider for disposal
         context.subscriptions.push({
@@ -41,6 +47,12 @@ export function activate(context: vscode.ExtensionContext) {
             }),
             vscode.commands.registerCommand('codeceptionphp.runFromDocker', async () => {
                 await handleDockerContainerSelection(outputChannel, testProvider);
+            }),
+            vscode.commands.registerCommand('codeceptionphp.rerunFailed', async () => {
+                await testProvider.rerunFailedTests();
+            }),
+            vscode.commands.registerCommand('codeceptionphp.showTestHistory', async (test?: vscode.TestItem | string) => {
+                await testProvider.showTestHistory(test);
             })
         );
 
@@ -55,6 +67,8 @@ export function activate(context: vscode.ExtensionContext) {
 
 /**
  * Handle Docker container selection command
+ * Docker Compose services of the workspace folder are offered before running containers: a service is resolved
+ * to its current container before every run, so it survives the stack being recreated.
  */
 async function handleDockerContainerSelection(
     outputChannel: vscode.OutputChannel,
@@ -76,12 +90,24 @@ async function handleDockerContainerSelection(
             });
             return;
         }
-        
+
+        // In multi-root workspaces each folder has its own container settings
+        const folders = vscode.workspace.workspaceFolders || [];
+        const folder = folders.length > 1
+            ? await vscode.window.showWorkspaceFolderPick({ placeHolder: 'Select the workspace folder whose tests run in Docker' })
+            : folders[0];
+
+        if (folders.length > 1 && !folder) {
+            return;
+        }
+
+        const workspaceRoot = folder?.uri.fsPath || '';
+        const services = await listComposeServices(dockerService, workspaceRoot, outputChannel);
         const containers = await dockerService.listRunningContainers();
 
-        if (containers.length === 0) {
+        if (services.length === 0 && containers.length === 0) {
             vscode.window.showWarningMessage(
-                'No running Docker containers found. Please start a container and try again.',
+                'No Docker Compose services or running Docker containers found. Please start a container and try again.',
                 'View Output'
             ).then(selection => {
                 if (selection === 'View Output') {
@@ -91,39 +117,83 @@ async function handleDockerContainerSelection(
             return;
         }
 
-        // Create QuickPick items
-        const items = containers.map(container => ({
-            label: container.name || container.id,
-            description: `${container.image} - ${container.status}`,
-            detail: `ID: ${container.id}`,
-            container: container,
-        }));
+        // Create QuickPick items: Compose services first, then running containers
+        type DockerPickItem = vscode.QuickPickItem & {
+            service?: { name: string; composeFile: string; project: string; container?: string };
+            container?: { id: string; name: string };
+        };
+        const items: DockerPickItem[] = [];
+        if (services.length > 0) {
+            items.push({ label: 'Docker Compose services', kind: vscode.QuickPickItemKind.Separator });
+            items.push(...services.map(service => ({
+                label: service.name,
+                description: path.relative(workspaceRoot, service.composeFile),
+                detail: service.container ? `Running in ${service.container}` : 'Not running',
+                service,
+            })));
+        }
+        if (containers.length > 0) {
+            items.push({ label: 'Running containers', kind: vscode.QuickPickItemKind.Separator });
+            items.push(...containers.map(container => ({
+                label: container.name || container.id,
+                description: `${container.image} - ${container.status}`,
+                detail: `ID: ${container.id}`,
+                container: container,
+            })));
+        }
 
         // Show QuickPick
         const selected = await vscode.window.showQuickPick(items, {
-            placeHolder: 'Select a Docker container to run Codeception tests',
+            placeHolder: 'Select a Docker Compose service or container to run Codeception tests',
             title: 'Select Docker Container',
         });
 
-        if (!selected) {
+        if (!selected || (!selected.service && !selected.container)) {
             return;
         }
 
-        // Detect working directory inside the container
-        const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '';
-        const containerWorkdir = await dockerService.getContainerWorkingDirectory(
-            selected.container.name || selected.container.id,
-            workspaceRoot
-        );
+        let containerName = selected.container ? selected.container.name || selected.container.id : selected.service?.container;
+
+        // A stopped service can be started right away (runs offer it too)
+        if (selected.service && !containerName) {
+            const service = selected.service;
+            const start = await vscode.window.showInformationMessage(
+                `The Docker Compose service "${service.name}" is not running. Start it with docker compose up -d ${service.name}?`,
+                { modal: true },
+                'Start'
+            );
+            if (start === 'Start') {
+                await vscode.window.withProgress(
+                    { location: vscode.ProgressLocation.Notification, title: `Starting ${service.name}...` },
+                    () => dockerService.startComposeService(service.composeFile, service.name)
+                );
+                containerName = await dockerService.findServiceContainer(service.project, service.name);
+            }
+        }
 
         // Update configuration
-        const config = vscode.workspace.getConfiguration('codeceptionphp');
-        await config.update('docker.enabled', true, vscode.ConfigurationTarget.Workspace);
-        await config.update('docker.container', selected.container.name || selected.container.id, vscode.ConfigurationTarget.Workspace);
-        await config.update('docker.workdir', containerWorkdir, vscode.ConfigurationTarget.Workspace);
+        const config = vscode.workspace.getConfiguration('codeceptionphp', folder?.uri);
+        const target = folders.length > 1 ? vscode.ConfigurationTarget.WorkspaceFolder : vscode.ConfigurationTarget.Workspace;
+        await config.update('docker.enabled', true, target);
+        await config.update('docker.service', selected.service?.name, target);
+        await config.update(
+            'docker.composeFile',
+            selected.service ? path.relative(workspaceRoot, selected.service.composeFile).split(path.sep).join('/') : undefined,
+            target
+        );
+
+        // Detect working directory inside the container (a stopped service keeps the current one)
+        let containerWorkdir = config.get<string>('docker.workdir', '');
+        if (containerName) {
+            containerWorkdir = await dockerService.getContainerWorkingDirectory(containerName, workspaceRoot);
+            await config.update('docker.container', containerName, target);
+            await config.update('docker.workdir', containerWorkdir, target);
+        }
 
         vscode.window.showInformationMessage(
-            `Codeception tests will now run in Docker container: ${selected.container.name || selected.container.id}\nWorking directory: ${containerWorkdir}`,
+            selected.service
+                ? `Codeception tests will now run in Docker Compose service: ${selected.service.name}\nWorking directory: ${containerWorkdir || '(workspace folder)'}`
+                : `Codeception tests will now run in Docker container: ${containerName}\nWorking directory: ${containerWorkdir}`,
             'OK'
         );
 
@@ -149,6 +219,33 @@ async function handleDockerContainerSelection(
     }
 }
 
+/**
+ * List the services of the Docker Compose files of a workspace folder, with the container each one runs in
+ * Compose files that cannot be read (invalid, or Compose unavailable) are logged and left out.
+ */
+async function listComposeServices(
+    dockerService: DockerService,
+    workspaceRoot: string,
+    outputChannel: vscode.OutputChannel
+): Promise<Array<{ name: string; composeFile: string; project: string; container?: string }>> {
+    const services: Array<{ name: string; composeFile: string; project: string; container?: string }> = [];
+
+    for (const composeFile of dockerService.findComposeFiles(workspaceRoot)) {
+        try {
+            const project = await dockerService.getComposeProject(composeFile);
+            for (const name of project.services) {
+                const container = await dockerService.findServiceContainer(project.name, name);
+                services.push({ name, composeFile, project: project.name, container });
+            }
+        } catch (error: any) {
+            const errorMessage = error?.message || String(error);
+            outputChannel.appendLine(`[Docker] Could not read services of ${composeFile}: ${errorMessage}`);
+        }
+    }
+
+    return services;
+}
+
 export function deactivate() {
     if (outputChannel) {
         outputChannel.dispose();
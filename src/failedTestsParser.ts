@@ -0,0 +1,85 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { FailedTestEntry } from './types';
+import { DockerService } from './dockerService';
+
+/**
+ * Parser for the failed tests list Codeception writes after each run (<paths.output>/failed)
+ * The same list is replayed by `codecept run -g failed`.
+ */
+export class FailedTestsParser {
+    private outputChannel: vscode.OutputChannel;
+    private dockerService?: DockerService;
+
+    constructor(outputChannel: vscode.OutputChannel, dockerService?: DockerService) {
+        this.outputChannel = outputChannel;
+        this.dockerService = dockerService;
+    }
+
+    /**
+     * Read and parse a failed tests list
+     * @param filePath Path to the list on the host
+     * @param containerPath Optional path inside Docker container (if Docker is enabled)
+     * @param container Optional Docker container ID/name
+     * @returns The entries of the list (empty when there is no list)
+     */
+    public async parseFailedFile(
+        filePath: string,
+        containerPath?: string,
+        container?: string
+    ): Promise<FailedTestEntry[]> {
+        try {
+            let content: string | null = null;
+
+            if (this.dockerService && container && containerPath) {
+                content = await this.dockerService.readFileFromContainer(container, containerPath);
+            }
+
+            if (content === null) {
+                if (!fs.existsSync(filePath)) {
+                    return [];
+                }
+                content = await fs.promises.readFile(filePath, 'utf-8');
+            }
+
+            return content
+                .split(/\r?\n/)
+                .map(line => line.trim())
+                .filter(line => line.length > 0)
+                .map(line => this.parseEntry(line));
+        } catch (error: any) {
+            const errorMessage = error?.message || String(error);
+            this.outputChannel.appendLine(`[FailedTests] ERROR reading ${filePath}: ${errorMessage}`);
+            return [];
+        }
+    }
+
+    /**
+     * Parse one line of the list: "path/to/FileTest.php:testName", "...:testName with data set #0",
+     * "path/to/FileCest.php:method | "value"" or "path/to/file.feature:Scenario name"
+     */
+    public parseEntry(line: string): FailedTestEntry {
+        const match = line.match(/^(.+?\.(?:php|feature))(?::(.*))?$/);
+        if (!match) {
+            return { file: line };
+        }
+
+        const [, file, name] = match;
+        if (!name) {
+            return { file };
+        }
+
+        const dataSetMatch = name.match(/^(.+?) with data set (?:#(\d+)|"(.*)")/);
+        if (dataSetMatch) {
+            return { file, test: dataSetMatch[1], dataSet: dataSetMatch[2] ?? dataSetMatch[3] };
+        }
+
+        // Cest examples are reported as "method | value | value"
+        const separator = file.endsWith('.php') ? name.indexOf(' | ') : -1;
+        if (separator > 0) {
+            return { file, test: name.substring(0, separator), dataSet: name.substring(separator + 3) };
+        }
+
+        return { file, test: name };
+    }
+}
@@ -0,0 +1,54 @@
+import * as vscode from 'vscode';
+import { RunHistory } from './runHistory';
+import { FlakyTest } from './types';
+
+/**
+ * "Flaky Tests" view of the Testing sidebar: the tests the run history found flipping between pass and fail
+ * Selecting a test shows its history.
+ */
+export class FlakyTestsView implements vscode.TreeDataProvider<FlakyTest>, vscode.Disposable {
+    private runHistory: RunHistory;
+    private findTestItem: (testId: string) => vscode.TestItem | undefined;
+    private changeEmitter = new vscode.EventEmitter<void>();
+    private historyListener: vscode.Disposable;
+
+    public readonly onDidChangeTreeData = this.changeEmitter.event;
+
+    constructor(runHistory: RunHistory, findTestItem: (testId: string) => vscode.TestItem | undefined) {
+        this.runHistory = runHistory;
+        this.findTestItem = findTestItem;
+        this.historyListener = runHistory.onDidChange(() => this.refresh());
+    }
+
+    /**
+     * Update the view (e.g. after discovery, when test items have been replaced)
+     */
+    public refresh(): void {
+        this.changeEmitter.fire();
+    }
+
+    public getTreeItem(flakyTest: FlakyTest): vscode.TreeItem {
+        const testItem = this.findTestItem(flakyTest.testId);
+        const treeItem = new vscode.TreeItem(testItem?.label ?? flakyTest.testId.split('::').pop() ?? flakyTest.testId);
+
+        treeItem.description = `${flakyTest.passed} passed, ${flakyTest.failed} failed on ${flakyTest.commit.substring(0, 8)}${flakyTest.env ? ` (${flakyTest.env})` : ''}`;
+        treeItem.tooltip = flakyTest.testId;
+        treeItem.iconPath = new vscode.ThemeIcon('warning');
+        treeItem.command = {
+            command: 'codeceptionphp.showTestHistory',
+            title: 'Show Test History',
+            arguments: [flakyTest.testId],
+        };
+
+        return treeItem;
+    }
+
+    public getChildren(element?: FlakyTest): FlakyTest[] {
+        return element ? [] : this.runHistory.getFlakyTests();
+    }
+
+    public dispose(): void {
+        this.historyListener.dispose();
+        this.changeEmitter.dispose();
+    }
+}
@@ -0,0 +1,176 @@
+import * as fs from 'fs';
+import * as vscode from 'vscode';
+import { ParsedFeatureFile, GherkinScenario } from './types';
+
+/**
+ * Gherkin parser for Codeception BDD suites
+ * Parses .feature files into features, scenarios, outlines and example rows with line ranges
+ */
+export class GherkinParser {
+    private outputChannel: vscode.OutputChannel;
+
+    constructor(outputChannel: vscode.OutputChannel) {
+        this.outputChannel = outputChannel;
+    }
+
+    /**
+     * Parse a .feature file and extract its scenarios
+     */
+    public parseFeatureFile(filePath: string): ParsedFeatureFile | null {
+        try {
+            if (!fs.existsSync(filePath)) {
+                return null;
+            }
+
+            const fileContent = fs.readFileSync(filePath, 'utf-8');
+            if (!fileContent.trim()) {
+                return null;
+            }
+
+            return this.parseFeature(fileContent);
+        } catch (error: any) {
+            const errorMessage = error?.message || String(error);
+            this.outputChannel.appendLine(`[GherkinParser] ERROR parsing ${filePath}: ${errorMessage}`);
+            return null;
+        }
+    }
+
+    /**
+     * Parse Gherkin source text
+     * Line numbers in the result are 1-based
+     */
+    public parseFeature(content: string): ParsedFeatureFile | null {
+        const lines = content.split(/\r?\n/);
+        let feature: ParsedFeatureFile | null = null;
+        let currentScenario: GherkinScenario | null = null;
+        let inExamples = false;
+        let examplesTags: string[] = [];
+        let examplesHeaderSeen = false;
+        let pendingTags: string[] = [];
+        let docStringFence: string | null = null;
+        let lastContentLine = 0;
+
+        const closeScenario = () => {
+            if (currentScenario) {
+                currentScenario.endLine = Math.max(currentScenario.line, lastContentLine);
+                currentScenario = null;
+            }
+            inExamples = false;
+        };
+
+        for (let i = 0; i < lines.length; i++) {
+            const lineNumber = i + 1;
+            const line = lines[i].trim();
+
+            // Skip doc string contents entirely
+            if (docStringFence) {
+                if (line.startsWith(docStringFence)) {
+                    docStringFence = null;
+                }
+                lastContentLine = lineNumber;
+                continue;
+            }
+            if (line.startsWith('"""') || line.startsWith('```')) {
+                docStringFence = line.substring(0, 3);
+                lastContentLine = lineNumber;
+                continue;
+            }
+
+            if (!line || line.startsWith('#')) {
+                continue;
+            }
+
+            // Tags apply to the next feature, scenario or examples block
+            if (line.startsWith('@')) {
+                pendingTags.push(...this.parseTags(line));
+                continue;
+            }
+
+            const keywordMatch = line.match(/^(Feature|Rule|Background|Scenario Outline|Scenario Template|Scenario|Example|Examples|Scenarios):\s*(.*)$/);
+            if (keywordMatch) {
+                const keyword = keywordMatch[1];
+                const title = keywordMatch[2].trim();
+
+                switch (keyword) {
+                    case 'Feature':
+                        feature = { name: title, line: lineNumber, tags: pendingTags, scenarios: [] };
+                        break;
+                    case 'Rule':
+                    case 'Background':
+                        closeScenario();
+                        break;
+                    case 'Scenario':
+                    case 'Example':
+                    case 'Scenario Outline':
+                    case 'Scenario Template': {
+                        closeScenario();
+                        if (!feature) {
+                            feature = { name: '', line: lineNumber, tags: [], scenarios: [] };
+                        }
+                        currentScenario = {
+                            name: title,
+                            line: lineNumber,
+                            endLine: lineNumber,
+                            isOutline: keyword === 'Scenario Outline' || keyword === 'Scenario Template',
+                            tags: [...feature.tags, ...pendingTags],
+                            examples: [],
+                        };
+                        feature.scenarios.push(currentScenario);
+                        break;
+                    }
+                    case 'Examples':
+                    case 'Scenarios':
+                        inExamples = currentScenario !== null;
+                        examplesTags = pendingTags;
+                        examplesHeaderSeen = false;
+                        break;
+                }
+
+                pendingTags = [];
+                lastContentLine = lineNumber;
+                continue;
+            }
+
+            // Table rows inside an Examples block (the first row is the header)
+            if (inExamples && currentScenario && line.startsWith('|')) {
+                if (examplesHeaderSeen) {
+                    currentScenario.examples.push({
+                        values: this.parseTableRow(line),
+                        line: lineNumber,
+                        tags: [...currentScenario.tags, ...examplesTags],
+                    });
+                } else {
+                    examplesHeaderSeen = true;
+                }
+            }
+
+            lastContentLine = lineNumber;
+        }
+
+        closeScenario();
+
+        return feature;
+    }
+
+    /**
+     * Parse a tag line such as "@smoke @api" (trailing comments are ignored)
+     */
+    private parseTags(line: string): string[] {
+        return line
+            .replace(/\s#.*$/, '')
+            .split(/\s+/)
+            .filter(tag => tag.startsWith('@') && tag.length > 1)
+            .map(tag => tag.substring(1));
+    }
+
+    /**
+     * Split a table row "| a | b |" into its cell values
+     */
+    private parseTableRow(line: string): string[] {
+        return line
+            .replace(/^\|/, '')
+            .replace(/\|$/, '')
+            .split('|')
+            .map(cell => cell.trim());
+    }
+}
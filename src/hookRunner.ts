@@ -0,0 +1,72 @@
+import * as vscode from 'vscode';
+import { StreamingTestExecutor, formatCommand } from './streamingExecutor';
+import { HookCommand, HookStage } from './types';
+
+// Hooks do setup work like builds and database resets, so they get more time than a test process
+const HOOK_TIMEOUT = 600000;
+
+/**
+ * Runs the hook commands configured around test runs (codeceptionphp.hooks.*)
+ * Commands of a stage run one after another with their output streamed into the test run;
+ * the first failing command ends the stage.
+ */
+export class HookRunner {
+    private outputChannel: vscode.OutputChannel;
+
+    constructor(outputChannel: vscode.OutputChannel) {
+        this.outputChannel = outputChannel;
+    }
+
+    /**
+     * Run the commands of a hook stage
+     * @param label What the hooks belong to ("global" or a suite name), for the output
+     * @returns Why the stage failed, or undefined when every command succeeded
+     */
+    public async run(
+        stage: HookStage,
+        label: string,
+        commands: HookCommand[],
+        run: vscode.TestRun,
+        token: vscode.CancellationToken
+    ): Promise<string | undefined> {
+        for (const hook of commands) {
+            if (token.isCancellationRequested) {
+                return `${stage} hook "${hook.command}" (${label}) was cancelled`;
+            }
+
+            this.outputChannel.appendLine(`[Hook] ${stage} (${label}): ${formatCommand(hook.argv)}`);
+            run.appendOutput(`Running ${stage} hook (${label}): ${hook.command}\r\n`);
+
+            // Each command gets its own process, stopped when the run is cancelled
+            const executor = new StreamingTestExecutor();
+            const cancellation = token.onCancellationRequested(() => executor.cancel());
+            let exitCode = 0;
+
+            try {
+                await executor.executeWithStreaming(hook.argv, {
+                    cwd: hook.cwd,
+                    timeout: HOOK_TIMEOUT,
+                    onOutput: (data: string) => run.appendOutput(data.replace(/\r?\n/g, '\r\n')),
+                    onTestResult: () => {},
+                    onComplete: (code: number) => {
+                        exitCode = code;
+                    },
+                    onError: () => {},
+                });
+            } catch (error: any) {
+                const errorMessage = error?.message || String(error);
+                this.outputChannel.appendLine(`[Hook] ERROR: ${errorMessage}`);
+                return `${stage} hook "${hook.command}" (${label}) failed: ${errorMessage}`;
+            } finally {
+                cancellation.dispose();
+            }
+
+            if (exitCode !== 0) {
+                this.outputChannel.appendLine(`[Hook] ${stage} (${label}) exited with code ${exitCode}`);
+                return `${stage} hook "${hook.command}" (${label}) failed with exit code ${exitCode}`;
+            }
+        }
+
+        return undefined;
+    }
+}
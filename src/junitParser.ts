@@ -22,10 +22,10 @@ export class JunitParser {
 
     /**
      * Parse JUnit XML file and extract test results
-     * @param xmlPath Path to the JUnit XML file (typically tests/_output/report.xml)
+     * @param xmlPath Path to the JUnit XML file (typically <paths.output>/report.xml)
      * @param containerPath Optional path inside Docker container (if Docker is enabled)
      * @param container Optional Docker container ID/name
-     * @returns Map of test method names to their results
+     * @returns Map of test names to their results, prefixed with "<file>:" when the report has the test file
      */
     public async parseJUnitXml(
         xmlPath: string, 
@@ -90,24 +90,27 @@ export class JunitParser {
                     if (!testcase || !testcase.name) continue;
 
                     const result = this.parseTestCase(testcase, testsuite.name);
-                    
+
+                    // Methods of the same name in different files are kept apart by their file
+                    const prefix = result.file ? `${result.file}:` : '';
+
                     // Store by method name for easy lookup
                     // Also store variations for matching
-                    results.set(result.name, result);
+                    results.set(`${prefix}${result.name}`, result);
                     
                     // Add lowercase version for case-insensitive matching
-                    results.set(result.name.toLowerCase(), result);
-                    
-                    // Handle test prefix variations (testMethodName -> methodName)
-                    if (result.name.toLowerCase().startsWith('test')) {
-                        const withoutTest = result.name.substring(4);
-                        results.set(withoutTest, result);
-                        results.set(withoutTest.toLowerCase(), result);
+                    results.set(`${prefix}${result.name.toLowerCase()}`, result);
+
+                    // Map data provider results to dataset item names (methodName#key)
+                    const dataSetName = JunitParser.getDataSetTestName(result.name);
+                    if (dataSetName) {
+                        results.set(`${prefix}${dataSetName}`, result);
+                        results.set(`${prefix}${dataSetName.toLowerCase()}`, result);
                     }
                 }
             }
 
-            this.outputChannel.appendLine(`[JunitParser] Parsed ${results.size / 2} test results from XML`);
+            this.outputChannel.appendLine(`[JunitParser] Parsed ${new Set(results.values()).size} test results from XML`);
 
         } catch (error: any) {
             const errorMessage = error?.message || String(error);
@@ -145,6 +148,7 @@ export class JunitParser {
         const result: JUnitTestResult = {
             name: testcase.name,
             className: testcase.classname || testcase.class || suiteName,
+            file: testcase.file,
             status: 'passed',
             time: testcase.time ? parseFloat(testcase.time) : undefined
         };
@@ -199,11 +203,27 @@ export class JunitParser {
         return Array.isArray(value) ? value.filter(Boolean) as T[] : [value];
     }
 
+    /**
+     * Convert a data provider test case name to its dataset item name
+     * e.g. 'testAdd with data set "two numbers"' -> 'testAdd#two numbers', 'testAdd with data set #0' -> 'testAdd#0'
+     * @returns The dataset name, or null if the test case is not a dataset run
+     */
+    public static getDataSetTestName(testCaseName: string): string | null {
+        const match = testCaseName.match(/^(\w+)\s+with data set\s+(?:#(\d+)|"(.*)")/);
+        if (!match) {
+            return null;
+        }
+
+        const key = match[2] !== undefined ? match[2] : match[3];
+        return `${match[1]}#${key}`;
+    }
+
     /**
      * Get the default JUnit XML output path for Codeception
+     * @param outputDir The project's output directory (paths.output in codeception.yml)
      */
-    public static getDefaultXmlPath(workspaceRoot: string): string {
-        return `${workspaceRoot}/tests/_output/report.xml`;
+    public static getDefaultXmlPath(outputDir: string): string {
+        return `${outputDir}/report.xml`;
     }
 }
 
@@ -0,0 +1,203 @@
+import * as fs from 'fs';
+import * as vscode from 'vscode';
+import * as glob from 'glob';
+import { PhpTestParser } from './phpParser';
+import { ParsedTestFile, ResolvedTestMethod } from './types';
+
+// Guards against deep or cyclic `extends` / `use` chains
+const MAX_HIERARCHY_DEPTH = 10;
+
+/**
+ * Index of the PHP classes and traits under a tests directory
+ * Resolves `extends` and trait `use` chains so test classes include inherited test methods
+ */
+export class PhpClassIndex {
+    private phpParser: PhpTestParser;
+    private outputChannel: vscode.OutputChannel;
+    // Parsed files by path (re-parsed only when their mtime changes)
+    private files = new Map<string, { parsed: ParsedTestFile; mtime: number }>();
+    // File path by lowercased fully-qualified class/trait name (PHP class names are case-insensitive)
+    private classes = new Map<string, string>();
+
+    constructor(phpParser: PhpTestParser, outputChannel: vscode.OutputChannel) {
+        this.phpParser = phpParser;
+        this.outputChannel = outputChannel;
+    }
+
+    /**
+     * Index every PHP file under a directory (generated and output files are skipped)
+     */
+    public indexDirectory(directory: string): void {
+        if (!fs.existsSync(directory)) {
+            return;
+        }
+
+        const files = glob.sync('**/*.php', {
+            cwd: directory,
+            absolute: true,
+            ignore: ['**/_output/**', '**/_generated/**'],
+        });
+
+        for (const file of files) {
+            this.updateFile(file);
+        }
+
+        this.outputChannel.appendLine(`[ClassIndex] Indexed ${files.length} PHP file(s) in ${directory}`);
+    }
+
+    /**
+     * Parse a file into the index, or drop it when it no longer exists
+     * @returns The parsed file (cached when unchanged since the last parse)
+     */
+    public updateFile(filePath: string): ParsedTestFile {
+        let mtime: number;
+        try {
+            mtime = fs.statSync(filePath).mtimeMs;
+        } catch {
+            this.removeFile(filePath);
+            return { methods: [] };
+        }
+
+        const cached = this.files.get(filePath);
+        if (cached && cached.mtime === mtime) {
+            return cached.parsed;
+        }
+
+        this.removeFile(filePath);
+        const parsed = this.phpParser.parseTestFile(filePath);
+        this.files.set(filePath, { parsed, mtime });
+        if (parsed.fullClassName) {
+            this.classes.set(parsed.fullClassName.toLowerCase(), filePath);
+        }
+
+        return parsed;
+    }
+
+    /**
+     * Drop a file from the index
+     */
+    public removeFile(filePath: string): void {
+        const entry = this.files.get(filePath);
+        if (!entry) {
+            return;
+        }
+
+        this.files.delete(filePath);
+        const className = entry.parsed.fullClassName?.toLowerCase();
+        if (className && this.classes.get(className) === filePath) {
+            this.classes.delete(className);
+        }
+    }
+
+    /**
+     * Check whether a file is part of the index
+     */
+    public hasFile(filePath: string): boolean {
+        return this.files.has(filePath);
+    }
+
+    /**
+     * Find the file declaring a class, by fully-qualified name or, failing that, by short name
+     */
+    public findClassFile(name: string): string | undefined {
+        const className = name.replace(/^\\/, '').toLowerCase();
+        const filePath = this.classes.get(className);
+        if (filePath) {
+            return filePath;
+        }
+
+        for (const [fullName, candidatePath] of this.classes) {
+            if (fullName.split('\\').pop() === className) {
+                return candidatePath;
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Resolve all test methods of a class: its own, then those of its traits, then those of its parents
+     * Follows PHP precedence, so a method declared closer to the class hides inherited ones with the same name.
+     */
+    public resolveTestMethods(parsed: ParsedTestFile, filePath: string): ResolvedTestMethod[] {
+        const resolved = new Map<string, ResolvedTestMethod>();
+        const visited = new Set<string>();
+
+        const collect = (current: ParsedTestFile, currentPath: string, depth: number) => {
+            for (const method of current.methods) {
+                const key = method.name.toLowerCase();
+                if (!resolved.has(key)) {
+                    resolved.set(key, { method, filePath: currentPath });
+                }
+            }
+
+            if (depth >= MAX_HIERARCHY_DEPTH) {
+                return;
+            }
+
+            for (const name of [...(current.traits || []), current.parentClass]) {
+                const entry = name ? this.getClass(name) : undefined;
+                if (entry && !visited.has(entry.filePath)) {
+                    visited.add(entry.filePath);
+                    collect(entry.parsed, entry.filePath, depth + 1);
+                }
+            }
+        };
+
+        visited.add(filePath);
+        collect(parsed, filePath, 0);
+
+        return Array.from(resolved.values());
+    }
+
+    /**
+     * Find the indexed files whose class inherits from, or uses, the class or trait declared in a file
+     */
+    public getDependentFiles(filePath: string): string[] {
+        const className = this.files.get(filePath)?.parsed.fullClassName?.toLowerCase();
+        if (!className) {
+            return [];
+        }
+
+        const dependents: string[] = [];
+        for (const [candidatePath, { parsed }] of this.files) {
+            if (candidatePath !== filePath && this.getAncestors(parsed).has(className)) {
+                dependents.push(candidatePath);
+            }
+        }
+
+        return dependents;
+    }
+
+    /**
+     * Collect the lowercased names of every parent class and trait of a class
+     */
+    private getAncestors(parsed: ParsedTestFile): Set<string> {
+        const ancestors = new Set<string>();
+        const pending = [...(parsed.traits || []), parsed.parentClass];
+
+        while (pending.length > 0 && ancestors.size < MAX_HIERARCHY_DEPTH * 4) {
+            const name = pending.shift()?.toLowerCase();
+            if (!name || ancestors.has(name)) {
+                continue;
+            }
+
+            ancestors.add(name);
+            const entry = this.getClass(name);
+            if (entry) {
+                pending.push(...(entry.parsed.traits || []), entry.parsed.parentClass);
+            }
+        }
+
+        return ancestors;
+    }
+
+    /**
+     * Look up an indexed class or trait by fully-qualified name
+     */
+    private getClass(name: string): { parsed: ParsedTestFile; filePath: string } | undefined {
+        const filePath = this.classes.get(name.replace(/^\\/, '').toLowerCase());
+        const entry = filePath ? this.files.get(filePath) : undefined;
+        return entry && filePath ? { parsed: entry.parsed, filePath } : undefined;
+    }
+}
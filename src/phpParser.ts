@@ -1,7 +1,7 @@
 import * as fs from 'fs';
 import * as vscode from 'vscode';
 import { Engine } from 'php-parser';
-import { TestMethod, ParsedTestFile } from './types';
+import { TestMethod, ParsedTestFile, DataSet } from './types';
 
 /**
  * PHP AST Parser for Codeception test discovery
@@ -62,7 +62,7 @@ export class PhpTestParser {
             };
 
             // Traverse AST to find classes and methods
-            this.traverseAST(ast, result);
+            this.traverseAST(ast, result, { namespace: '', imports: new Map<string, string>() });
 
             return result;
         } catch (error: any) {
@@ -78,58 +78,135 @@ export class PhpTestParser {
     }
 
     /**
-     * Recursively traverse AST nodes to find classes and test methods
+     * Recursively traverse AST nodes to find classes, traits and test methods
+     * Tracks the current namespace and `use` imports so parent classes and traits resolve to fully-qualified names.
      */
-    private traverseAST(node: any, result: ParsedTestFile): void {
+    private traverseAST(node: any, result: ParsedTestFile, scope: { namespace: string; imports: Map<string, string> }): void {
         if (!node || typeof node !== 'object') {
             return;
         }
 
-        // Handle class declaration
-        if (node.kind === 'class' || node.kind === 'classinterface') {
-            if (node.name) {
-                result.className = node.name.name || node.name;
+        if (Array.isArray(node)) {
+            for (const child of node) {
+                this.traverseAST(child, result, scope);
+            }
+            return;
+        }
+
+        // Each namespace has its own imports
+        if (node.kind === 'namespace') {
+            const namespaceScope = { namespace: this.getName(node.name), imports: new Map<string, string>() };
+            this.traverseAST(node.children, result, namespaceScope);
+            return;
+        }
+
+        if (node.kind === 'usegroup') {
+            // Only class imports matter here (not `use function` / `use const`)
+            if (!node.type) {
+                const prefix = this.getName(node.name);
+                for (const item of node.items || []) {
+                    const importedName = this.getName(item.name).replace(/^\\/, '');
+                    const fullName = prefix ? `${prefix}\\${importedName}` : importedName;
+                    const alias = this.getName(item.alias) || fullName.split('\\').pop() || fullName;
+                    scope.imports.set(alias.toLowerCase(), fullName);
+                }
+            }
+            return;
+        }
+
+        // Handle class and trait declarations (the first one in the file wins)
+        if ((node.kind === 'class' || node.kind === 'trait') && !result.className) {
+            const className = this.getName(node.name);
+            if (className) {
+                result.className = className;
+                result.fullClassName = scope.namespace ? `${scope.namespace}\\${className}` : className;
+            }
+            result.isTrait = node.kind === 'trait';
+            result.isAbstract = node.kind === 'class' && node.isAbstract === true;
+            result.traits = [];
+            if (node.kind === 'class' && node.extends) {
+                result.parentClass = this.resolveClassName(node.extends, scope);
             }
 
             // Process class body for methods
             if (node.body && Array.isArray(node.body)) {
+                // Keep every method node so data providers can be resolved by name
+                const methodNodes = new Map<string, any>();
+                for (const child of node.body) {
+                    if (child.kind === 'method') {
+                        const methodName = child.name?.name || child.name;
+                        if (methodName) {
+                            methodNodes.set(String(methodName).toLowerCase(), child);
+                        }
+                    } else if (child.kind === 'traituse') {
+                        for (const trait of child.traits || []) {
+                            result.traits.push(this.resolveClassName(trait, scope));
+                        }
+                    }
+                }
+
+                // Codeception runs every public method of a Cest class as a test
+                const isCest = node.kind === 'class' && /Cest$/.test(className);
+
                 for (const child of node.body) {
                     if (child.kind === 'method') {
-                        const testMethod = this.parseMethod(child);
+                        const testMethod = this.parseMethod(child, isCest);
                         if (testMethod) {
+                            if (testMethod.annotations.dataProvider) {
+                                const providerNode = methodNodes.get(testMethod.annotations.dataProvider.toLowerCase());
+                                if (providerNode) {
+                                    testMethod.dataSets = this.parseDataProvider(providerNode);
+                                }
+                            }
                             result.methods.push(testMethod);
                         }
                     }
                 }
             }
+            return;
         }
 
-        // Recursively process child nodes
+        // Recursively process child nodes (the program node and blocks)
         if (node.children && Array.isArray(node.children)) {
-            for (const child of node.children) {
-                this.traverseAST(child, result);
-            }
+            this.traverseAST(node.children, result, scope);
         }
+    }
 
-        // Also check for statements array (top-level statements)
-        if (node.children === undefined && Array.isArray(node)) {
-            for (const child of node) {
-                this.traverseAST(child, result);
-            }
+    /**
+     * Resolve a class reference node to a fully-qualified name (without leading backslash)
+     */
+    private resolveClassName(nameNode: any, scope: { namespace: string; imports: Map<string, string> }): string {
+        const name = this.getName(nameNode);
+
+        if (nameNode?.resolution === 'fqn' || name.startsWith('\\')) {
+            return name.replace(/^\\/, '');
         }
 
-        // Handle program node (root of AST)
-        if (node.kind === 'program' && node.children) {
-            for (const child of node.children) {
-                this.traverseAST(child, result);
-            }
+        // The first segment may be an imported alias
+        const [first, ...rest] = name.split('\\');
+        const imported = scope.imports.get(first.toLowerCase());
+        if (imported) {
+            return [imported, ...rest].join('\\');
+        }
+
+        return scope.namespace ? `${scope.namespace}\\${name}` : name;
+    }
+
+    /**
+     * Read an identifier/name node as a string
+     */
+    private getName(node: any): string {
+        if (!node) {
+            return '';
         }
+        return typeof node === 'string' ? node : String(node.name || '');
     }
 
     /**
      * Parse a method node and extract test information
+     * @param isCest Whether the method belongs to a Cest class (all its public methods are tests)
      */
-    private parseMethod(methodNode: any): TestMethod | null {
+    private parseMethod(methodNode: any, isCest: boolean): TestMethod | null {
         // Only process public methods
         if (methodNode.visibility !== 'public' && methodNode.visibility !== undefined) {
             return null;
@@ -140,6 +217,11 @@ export class PhpTestParser {
             return null;
         }
 
+        // Abstract methods have no body to run
+        if (methodNode.isAbstract) {
+            return null;
+        }
+
         // Skip constructor and lifecycle methods
         if (methodName === '__construct' || methodName.startsWith('_')) {
             return null;
@@ -160,12 +242,13 @@ export class PhpTestParser {
             }
         }
         
-        const annotations = this.parseAnnotations(docblock, methodName);
+        const annotations = this.parseAnnotations(docblock, methodName, methodNode.attrGroups);
 
         // Only include methods that are tests
-        if (!annotations.isTest) {
+        if (!annotations.isTest && !isCest) {
             return null;
         }
+        annotations.isTest = true;
 
         // Extract line numbers
         // php-parser uses 'loc' property for location information
@@ -177,13 +260,110 @@ export class PhpTestParser {
             line,
             endLine,
             annotations,
+            // Codeception runs each @example / #[Examples] as its own test
+            dataSets: annotations.examples ? this.parseExamples(annotations.examples, line, endLine) : undefined,
+        };
+    }
+
+    /**
+     * Turn @example / #[Examples] sources into datasets labelled with their values
+     * Examples are indexed in declaration order, which is how Codeception reports them.
+     */
+    private parseExamples(examples: string[], line: number, endLine: number): DataSet[] {
+        return examples.map((source, index) => {
+            let label = source;
+            try {
+                const values = JSON.parse(source);
+                if (values && typeof values === 'object') {
+                    // Same format as Codeception's output: "value" | "value"
+                    label = Object.values(values).map(value => JSON.stringify(value)).join(' | ');
+                }
+            } catch {
+                // Not JSON (e.g. PHP array syntax) - show the source as written
+            }
+
+            return { key: String(index), isIndex: true, label, line, endLine };
+        });
+    }
+
+    /**
+     * Statically resolve the datasets of a data provider method
+     * Supports literal array returns and top-level `yield` statements, with string or integer keys.
+     * Returns undefined when the provider builds its data dynamically.
+     */
+    private parseDataProvider(providerNode: any): DataSet[] | undefined {
+        const statements: any[] = providerNode.body?.children || [];
+        const dataSets: DataSet[] = [];
+        let nextIndex = 0;
+
+        const addEntry = (keyNode: any, entryNode: any): boolean => {
+            const line = entryNode.loc?.start?.line || providerNode.loc?.start?.line || 1;
+            const endLine = entryNode.loc?.end?.line || line;
+
+            if (!keyNode) {
+                dataSets.push({ key: String(nextIndex), isIndex: true, line, endLine });
+                nextIndex++;
+                return true;
+            }
+
+            if (keyNode.kind === 'number' && /^\d+$/.test(String(keyNode.value))) {
+                const index = parseInt(keyNode.value, 10);
+                dataSets.push({ key: String(index), isIndex: true, line, endLine });
+                nextIndex = Math.max(nextIndex, index + 1);
+                return true;
+            }
+
+            if (keyNode.kind === 'string') {
+                // PHP casts numeric string keys to integers
+                if (/^(0|[1-9]\d*)$/.test(keyNode.value)) {
+                    const index = parseInt(keyNode.value, 10);
+                    dataSets.push({ key: String(index), isIndex: true, line, endLine });
+                    nextIndex = Math.max(nextIndex, index + 1);
+                } else {
+                    dataSets.push({ key: keyNode.value, isIndex: false, line, endLine });
+                }
+                return true;
+            }
+
+            // Computed keys (constants, concatenation, ...) cannot be resolved statically
+            return false;
         };
+
+        for (const statement of statements) {
+            if (statement.kind === 'return') {
+                // A bare return ends a generator provider
+                if (!statement.expr) {
+                    break;
+                }
+                if (statement.expr.kind !== 'array' || !Array.isArray(statement.expr.items)) {
+                    return undefined;
+                }
+                for (const item of statement.expr.items) {
+                    if (!item || item.unpack || !addEntry(item.key, item)) {
+                        return undefined;
+                    }
+                }
+                break;
+            }
+
+            if (statement.kind === 'expressionstatement' && statement.expression?.kind === 'yieldfrom') {
+                return undefined;
+            }
+
+            if (statement.kind === 'expressionstatement' && statement.expression?.kind === 'yield') {
+                if (!addEntry(statement.expression.key, statement)) {
+                    return undefined;
+                }
+            }
+        }
+
+        return dataSets.length > 0 ? dataSets : undefined;
     }
 
     /**
-     * Parse docblock annotations
+     * Parse docblock annotations and PHP 8 attributes
      */
-    private parseAnnotations(docblock: string, methodName: string): TestMethod['annotations'] {
+    private parseAnnotations(docblock: string, methodName: string, attrGroups?: any[]): TestMethod['annotations'] {
         const annotations: TestMethod['annotations'] = {
             isTest: false,
         };
@@ -191,6 +371,7 @@ export class PhpTestParser {
         if (!docblock) {
             // If no docblock, check if method name starts with 'test'
             annotations.isTest = methodName.toLowerCase().startsWith('test');
+            this.parseAttributes(attrGroups, annotations);
             return annotations;
         }
 
@@ -206,11 +387,11 @@ export class PhpTestParser {
             annotations.dataProvider = dataProviderMatch[1];
         }
 
-        // Extract @depends annotations (can have multiple)
-        const dependsMatches = docblock.match(/@depends\s+(\w+)/gi);
+        // Extract @depends annotations (can have multiple; "method", "Class:method" or "Class::method")
+        const dependsMatches = docblock.match(/@depends\s+([\w\\:]+)/gi);
         if (dependsMatches) {
             annotations.depends = dependsMatches.map(match => {
-                const methodMatch = match.match(/@depends\s+(\w+)/i);
+                const methodMatch = match.match(/@depends\s+([\w\\:]+)/i);
                 return methodMatch ? methodMatch[1] : '';
             }).filter(Boolean);
         }
@@ -224,7 +405,157 @@ export class PhpTestParser {
             }).filter(Boolean);
         }
 
+        // Extract @example annotations (one JSON array or object per line, or the Doctrine form "@example(key="value")")
+        const exampleMatches = docblock.matchAll(/@example(?:\s+|(?=\())(.+?)\s*(?:\*\/)?$/gim);
+        for (const exampleMatch of exampleMatches) {
+            const source = exampleMatch[1].startsWith('(') ? this.doctrineExampleToJson(exampleMatch[1]) : exampleMatch[1];
+            annotations.examples = [...(annotations.examples || []), source];
+        }
+
+        // Extract @env annotations (can have multiple; "chrome,dev" is a merged environment)
+        const envMatches = docblock.matchAll(/@env\s+([\w.,-]+)/gi);
+        for (const envMatch of envMatches) {
+            annotations.envs = [...(annotations.envs || []), envMatch[1]];
+        }
+
+        // Extract @skip annotation (optional reason)
+        const skipMatch = docblock.match(/@skip\b[ \t]*([^\r\n*]*)/i);
+        if (skipMatch) {
+            annotations.skip = skipMatch[1].trim();
+        }
+
+        this.parseAttributes(attrGroups, annotations);
+
         return annotations;
     }
+
+    /**
+     * Convert a Doctrine-style example ("(user="davert", 1)") to the JSON form of @example
+     * Values that aren't quoted, numbers or booleans are taken as strings; named values give an object.
+     */
+    private doctrineExampleToJson(source: string): string {
+        const inner = source.trim().replace(/^\(/, '').replace(/\)$/, '');
+        const entries = Array.from(inner.matchAll(/\s*(?:(\w+)\s*[=:]\s*)?("(?:[^"\\]|\\.)*"|[^,]*?)\s*(?:,|$)/g))
+            .filter(match => match[0].trim() !== '');
+
+        const values = entries.map(([, , value]) => {
+            if (value.startsWith('"') || /^-?\d+(\.\d+)?$/.test(value)) {
+                return value;
+            }
+            return /^(true|false|null)$/i.test(value) ? value.toLowerCase() : JSON.stringify(value);
+        });
+
+        return entries.length > 0 && entries.every(([, key]) => key !== undefined)
+            ? `{${entries.map(([, key], index) => `${JSON.stringify(key)}: ${values[index]}`).join(', ')}}`
+            : `[${values.join(', ')}]`;
+    }
+
+    /**
+     * Merge PHPUnit/Codeception attributes (#[Test], #[DataProvider('x')], ...) into annotations
+     * Attribute names are matched by their short name, so both imported and fully-qualified forms work
+     */
+    private parseAttributes(attrGroups: any[] | undefined, annotations: TestMethod['annotations']): void {
+        if (!attrGroups || !Array.isArray(attrGroups)) {
+            return;
+        }
+
+        for (const group of attrGroups) {
+            for (const attr of group?.attrs || []) {
+                const fullName: string = attr?.name?.name || attr?.name || '';
+                const shortName = String(fullName).split('\\').pop() || '';
+                const args: any[] = Array.isArray(attr.args) ? attr.args : [];
+                const firstArg = this.getAttributeArgValue(args[0]);
+
+                switch (shortName.toLowerCase()) {
+                    case 'test':
+                        annotations.isTest = true;
+                        break;
+                    case 'dataprovider':
+                        if (firstArg && !annotations.dataProvider) {
+                            annotations.dataProvider = firstArg;
+                        }
+                        break;
+                    case 'depends':
+                        if (firstArg) {
+                            annotations.depends = [...(annotations.depends || []), firstArg];
+                        }
+                        break;
+                    case 'group':
+                        // Codeception's #[Group] accepts several names at once
+                        for (const arg of args) {
+                            const group = this.getAttributeArgValue(arg);
+                            if (group && !(annotations.groups || []).includes(group)) {
+                                annotations.groups = [...(annotations.groups || []), group];
+                            }
+                        }
+                        break;
+                    case 'examples': {
+                        // Rendered as a JSON-like list (or object for named arguments) like @example
+                        const isNamed = args.length > 0 && args.every(arg => arg?.kind === 'namedargument');
+                        const source = isNamed
+                            ? `{${args.map(arg => `${JSON.stringify(String(arg.name))}: ${this.getAttributeArgSource(arg.value)}`).join(', ')}}`
+                            : `[${args.map(arg => this.getAttributeArgSource(arg)).join(', ')}]`;
+                        annotations.examples = [...(annotations.examples || []), source];
+                        break;
+                    }
+                    case 'env':
+                        for (const arg of args) {
+                            const env = this.getAttributeArgValue(arg);
+                            if (env) {
+                                annotations.envs = [...(annotations.envs || []), env];
+                            }
+                        }
+                        break;
+                    case 'skip':
+                        annotations.skip = firstArg || '';
+                        break;
+                }
+            }
+        }
+    }
+
+    /**
+     * Get the literal string value of an attribute argument (string, number or named argument)
+     */
+    private getAttributeArgValue(arg: any): string | undefined {
+        if (!arg) {
+            return undefined;
+        }
+        if (arg.kind === 'namedargument') {
+            return this.getAttributeArgValue(arg.value);
+        }
+        if (arg.kind === 'string' || arg.kind === 'number') {
+            return String(arg.value);
+        }
+        return undefined;
+    }
+
+    /**
+     * Render an attribute argument back to PHP-like source text for display
+     */
+    private getAttributeArgSource(arg: any): string {
+        if (!arg) {
+            return '';
+        }
+
+        switch (arg.kind) {
+            case 'namedargument':
+                return `${arg.name}: ${this.getAttributeArgSource(arg.value)}`;
+            case 'string':
+                return JSON.stringify(arg.value);
+            case 'number':
+                return String(arg.value);
+            case 'boolean':
+                return arg.value ? 'true' : 'false';
+            case 'nullkeyword':
+                return 'null';
+            case 'array':
+                return `[${(arg.items || []).map((item: any) => item?.key
+                    ? `${this.getAttributeArgSource(item.key)} => ${this.getAttributeArgSource(item.value)}`
+                    : this.getAttributeArgSource(item?.value)).join(', ')}]`;
+            default:
+                return arg.raw || arg.name?.name || arg.name || '?';
+        }
+    }
 }
 
@@ -0,0 +1,208 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { FlakyTest, RunHistoryEntry, TestRunResult } from './types';
+
+const execFileAsync = promisify(execFile);
+
+// File of the history in the workspace storage directory
+const HISTORY_FILE = 'run-history.json';
+
+/**
+ * History of the per-test results of recent runs, kept in the workspace storage so it survives restarts
+ * Only the latest runs are kept (codeceptionphp.history.maxRuns). Tests that both passed and failed
+ * on the same commit, uncommitted changes and environment, including tests that passed on a retry, are reported as flaky.
+ */
+export class RunHistory implements vscode.Disposable {
+    private outputChannel: vscode.OutputChannel;
+    // Without a workspace there is no storage directory; the history then lives in memory only
+    private historyPath?: string;
+    private runs: RunHistoryEntry[] = [];
+    // Saves are chained so the file is never written by two of them at once
+    private saving: Promise<void> = Promise.resolve();
+    private changeEmitter = new vscode.EventEmitter<void>();
+
+    /**
+     * Fired after a run has been recorded
+     */
+    public readonly onDidChange = this.changeEmitter.event;
+
+    constructor(outputChannel: vscode.OutputChannel, storageDir: string | undefined) {
+        this.outputChannel = outputChannel;
+        this.historyPath = storageDir ? path.join(storageDir, HISTORY_FILE) : undefined;
+        this.load();
+    }
+
+    /**
+     * Record the results of a finished run
+     * @param cwd Directory whose git HEAD the run is recorded against
+     * @param maxRuns Number of runs to keep
+     */
+    public async record(
+        results: Map<string, TestRunResult>,
+        options: { cwd: string; env?: string; maxRuns: number }
+    ): Promise<void> {
+        if (results.size === 0) {
+            return;
+        }
+
+        this.runs.push({
+            timestamp: Date.now(),
+            commit: await this.getCommit(options.cwd),
+            workingTree: await this.getWorkingTreeState(options.cwd),
+            env: options.env,
+            results: Object.fromEntries(results),
+        });
+        this.runs = this.runs.slice(-Math.max(1, options.maxRuns));
+
+        this.saving = this.saving.then(() => this.save());
+        await this.saving;
+        this.changeEmitter.fire();
+    }
+
+    /**
+     * Get the recorded results of a test, newest first
+     */
+    public getTestHistory(testId: string): Array<{ timestamp: number; commit?: string; env?: string; result: TestRunResult }> {
+        return this.runs
+            .filter(run => run.results[testId])
+            .map(run => ({ timestamp: run.timestamp, commit: run.commit, env: run.env, result: run.results[testId] }))
+            .reverse();
+    }
+
+    /**
+     * Get the IDs of all tests with recorded results
+     */
+    public getTestIds(): string[] {
+        return Array.from(new Set(this.runs.flatMap(run => Object.keys(run.results))));
+    }
+
+    /**
+     * Find the tests that both passed and failed (or errored) on the same commit, working tree and environment
+     * A test fixed by editing uncommitted code changed the working tree, so it is not flaky.
+     * Runs without a known commit are left out. Each test is reported once, for its most recent flip.
+     */
+    public getFlakyTests(): FlakyTest[] {
+        const groups = new Map<string, FlakyTest>();
+
+        for (const run of this.runs) {
+            if (!run.commit) {
+                continue;
+            }
+
+            for (const [testId, result] of Object.entries(run.results)) {
+                const key = `${testId}\0${run.commit}\0${run.workingTree ?? ''}\0${run.env ?? ''}`;
+                const group = groups.get(key) || { testId, commit: run.commit, env: run.env, passed: 0, failed: 0, lastRun: 0 };
+                if (result.outcome === 'passed') {
+                    group.passed++;
+                } else if (result.outcome === 'failed' || result.outcome === 'errored') {
+                    group.failed++;
+                }
+                // Failed attempts of a test that passed on a retry count as failures of the same working tree
+                group.failed += result.failedAttempts || 0;
+                group.lastRun = run.timestamp;
+                groups.set(key, group);
+            }
+        }
+
+        const flaky = new Map<string, FlakyTest>();
+        for (const group of groups.values()) {
+            const known = flaky.get(group.testId);
+            if (group.passed > 0 && group.failed > 0 && (!known || group.lastRun > known.lastRun)) {
+                flaky.set(group.testId, group);
+            }
+        }
+
+        return Array.from(flaky.values()).sort((a, b) => b.lastRun - a.lastRun);
+    }
+
+    /**
+     * Get the latest recorded duration of each test, in seconds
+     */
+    public getLastDurations(): Map<string, number> {
+        const durations = new Map<string, number>();
+        for (const run of this.runs) {
+            for (const [testId, result] of Object.entries(run.results)) {
+                if (result.duration !== undefined) {
+                    durations.set(testId, result.duration / 1000);
+                }
+            }
+        }
+        return durations;
+    }
+
+    public dispose(): void {
+        this.changeEmitter.dispose();
+    }
+
+    /**
+     * Load the history file (a missing or unreadable file starts an empty history)
+     */
+    private load(): void {
+        if (!this.historyPath || !fs.existsSync(this.historyPath)) {
+            return;
+        }
+
+        try {
+            const parsed = JSON.parse(fs.readFileSync(this.historyPath, 'utf-8'));
+            this.runs = Array.isArray(parsed?.runs) ? parsed.runs : [];
+            this.outputChannel.appendLine(`[History] Loaded ${this.runs.length} run(s)`);
+        } catch (error: any) {
+            const errorMessage = error?.message || String(error);
+            this.outputChannel.appendLine(`[History] ERROR reading ${this.historyPath}: ${errorMessage}`);
+        }
+    }
+
+    private async save(): Promise<void> {
+        if (!this.historyPath) {
+            return;
+        }
+
+        try {
+            await fs.promises.mkdir(path.dirname(this.historyPath), { recursive: true });
+            await fs.promises.writeFile(this.historyPath, JSON.stringify({ runs: this.runs }), 'utf-8');
+        } catch (error: any) {
+            const errorMessage = error?.message || String(error);
+            this.outputChannel.appendLine(`[History] ERROR writing ${this.historyPath}: ${errorMessage}`);
+        }
+    }
+
+    /**
+     * Get the commit checked out in a directory
+     * @returns The HEAD commit hash, or undefined outside a git repository
+     */
+    private async getCommit(cwd: string): Promise<string | undefined> {
+        try {
+            const { stdout } = await execFileAsync('git', ['rev-parse', 'HEAD'], { cwd, timeout: 5000 });
+            return stdout.trim() || undefined;
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * Hash the uncommitted changes of a directory's repository: the diff against HEAD, plus the untracked files
+     * Untracked files are hashed by name and modification time, to avoid reading them.
+     * @returns The hash, or undefined outside a git repository
+     */
+    private async getWorkingTreeState(cwd: string): Promise<string | undefined> {
+        try {
+            const [{ stdout: diff }, { stdout: untracked }] = await Promise.all([
+                execFileAsync('git', ['diff', 'HEAD', '--binary'], { cwd, timeout: 5000, maxBuffer: 64 * 1024 * 1024 }),
+                execFileAsync('git', ['ls-files', '--others', '--exclude-standard', '-z'], { cwd, timeout: 5000 }),
+            ]);
+
+            const hash = crypto.createHash('sha1').update(diff);
+            for (const file of untracked.split('\0').filter(Boolean)) {
+                const modified = fs.existsSync(path.join(cwd, file)) ? fs.statSync(path.join(cwd, file)).mtimeMs : 0;
+                hash.update(`\0${file}\0${modified}`);
+            }
+            return hash.digest('hex');
+        } catch {
+            return undefined;
+        }
+    }
+}
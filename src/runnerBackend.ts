@@ -0,0 +1,84 @@
+import * as vscode from 'vscode';
+import { RunnerTemplate } from './types';
+
+/**
+ * Templates of the built-in presets (codeceptionphp.runner.preset)
+ * Variables go through env(1) inside the runtime, since not every tool has an option for them.
+ */
+export const RUNNER_PRESETS: Record<string, RunnerTemplate> = {
+    ddev: {
+        command: ['ddev', 'exec', '--dir', '${workdir}', 'env', '${env}', '${command}'],
+        workdir: '/var/www/html',
+    },
+    lando: {
+        command: ['lando', 'exec', 'appserver', '--', 'env', '${env}', '${command}'],
+        workdir: '/app',
+    },
+    sail: {
+        command: ['vendor/bin/sail', 'exec', '-u', 'sail', '-w', '${workdir}', 'laravel.test', 'env', '${env}', '${command}'],
+        workdir: '/var/www/html',
+    },
+    'docker-compose': {
+        command: ['docker', 'compose', 'run', '--rm', '-T', '-w', '${workdir}', 'php', 'env', '${env}', '${command}'],
+        workdir: '/app',
+    },
+};
+
+/**
+ * Runs Codeception through a command template instead of locally or with docker exec
+ * The template is an argument vector: `${command}` stands for the codecept arguments, `${env}` for one
+ * KEY=value argument per environment variable, and `${workdir}` is replaced inside any argument.
+ */
+export class RunnerBackend {
+    private outputChannel: vscode.OutputChannel;
+    // Unknown preset names already reported (templates are looked up for every command)
+    private reportedPresets = new Set<string>();
+
+    constructor(outputChannel: vscode.OutputChannel) {
+        this.outputChannel = outputChannel;
+    }
+
+    /**
+     * Get the configured template: codeceptionphp.runner.command, or the one of codeceptionphp.runner.preset
+     * @returns The template, or undefined when none is configured
+     */
+    public getTemplate(config: vscode.WorkspaceConfiguration): RunnerTemplate | undefined {
+        const presetName = config.get<string>('runner.preset', '');
+        const preset = presetName ? RUNNER_PRESETS[presetName] : undefined;
+        if (presetName && !preset && !this.reportedPresets.has(presetName)) {
+            this.reportedPresets.add(presetName);
+            this.outputChannel.appendLine(`[Runner] Unknown preset "${presetName}" (available: ${Object.keys(RUNNER_PRESETS).join(', ')})`);
+        }
+
+        const command = config.get<string[]>('runner.command', []);
+        const templateCommand = command.length > 0 ? command : preset?.command;
+        if (!templateCommand) {
+            return undefined;
+        }
+
+        return {
+            command: templateCommand,
+            workdir: config.get<string>('runner.workdir', '') || preset?.workdir,
+        };
+    }
+
+    /**
+     * Fill a template in
+     * @param command Codecept argument vector, spliced in place of ${command} (appended when the template has none)
+     * @param options.workdir Working directory in the runtime
+     * @param options.env Environment variables of the command
+     */
+    public buildCommand(template: string[], command: string[], options: { workdir: string; env?: Record<string, string> }): string[] {
+        const argv = template.flatMap(arg => {
+            if (arg === '${command}') {
+                return command;
+            }
+            if (arg === '${env}') {
+                return Object.entries(options.env || {}).map(([key, value]) => `${key}=${value}`);
+            }
+            return [arg.split('${workdir}').join(options.workdir)];
+        });
+
+        return template.includes('${command}') ? argv : [...argv, ...command];
+    }
+}
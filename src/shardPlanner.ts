@@ -0,0 +1,25 @@
+/**
+ * Splits the units of a run (suites or files) into shards for parallel workers
+ * Uses longest-processing-time-first: heaviest units first, each onto the currently lightest shard.
+ */
+export class ShardPlanner {
+    /**
+     * Plan shards
+     * @param units Units with their weight (test count, or historical duration in seconds)
+     * @param workers Maximum number of shards
+     * @returns Non-empty shards, each a list of units
+     */
+    public plan<T>(units: Array<{ unit: T; weight: number }>, workers: number): T[][] {
+        const shardCount = Math.max(1, Math.min(Math.floor(workers), units.length));
+        const shards = Array.from({ length: shardCount }, () => ({ units: [] as T[], load: 0 }));
+
+        const sorted = [...units].sort((a, b) => b.weight - a.weight);
+        for (const { unit, weight } of sorted) {
+            const lightest = shards.reduce((min, shard) => shard.load < min.load ? shard : min, shards[0]);
+            lightest.units.push(unit);
+            lightest.load += weight;
+        }
+
+        return shards.map(shard => shard.units).filter(shardUnits => shardUnits.length > 0);
+    }
+}
@@ -1,41 +1,103 @@
 import { spawn, ChildProcess } from 'child_process';
 import * as vscode from 'vscode';
+import { TestResultEvent } from './types';
+
+// Prefix of the event lines written to stderr by the adapter's Codeception extension
+export const RESULT_EVENT_MARKER = '##codeception-vscode ';
 
 export interface StreamingOptions {
     onOutput: (data: string) => void;
     onTestResult: (testName: string, passed: boolean, output?: string) => void;
+    // Structured events of the adapter's Codeception extension (when it is loaded)
+    onTestEvent?: (event: TestResultEvent) => void;
     onComplete: (exitCode: number) => void;
     onError: (error: Error) => void;
     cwd: string;
     timeout?: number;
+    // Extra environment variables for the process
+    env?: Record<string, string>;
+}
+
+/**
+ * Split a command line from the settings (binary path, arguments) into arguments
+ * Single and double quotes group words; nothing else is interpreted, since commands run without a shell.
+ */
+export function splitCommandLine(commandLine: string): string[] {
+    const parts: string[] = [];
+    let current = '';
+    let inArgument = false;
+    let quoteChar = '';
+
+    for (const char of commandLine) {
+        if (quoteChar) {
+            if (char === quoteChar) {
+                quoteChar = '';
+            } else {
+                current += char;
+            }
+        } else if (char === '"' || char === "'") {
+            quoteChar = char;
+            inArgument = true;
+        } else if (/\s/.test(char)) {
+            if (inArgument) {
+                parts.push(current);
+                current = '';
+                inArgument = false;
+            }
+        } else {
+            current += char;
+            inArgument = true;
+        }
+    }
+
+    if (inArgument) {
+        parts.push(current);
+    }
+
+    return parts;
+}
+
+/**
+ * Format an argument vector as a shell command line, for logs and the test run output
+ * Arguments beyond path-safe characters are quoted, so the line can be copied into a terminal.
+ */
+export function formatCommand(argv: string[]): string {
+    return argv
+        .map(arg => /^[\w\/.:#=@%+,-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, `'\\''`)}'`)
+        .join(' ');
 }
 
 /**
  * Executes commands with streaming output support
  * Uses spawn() instead of exec() to enable real-time output processing
+ * Results come from the structured event stream on stderr; the output regexes are only a fallback without it.
  */
 export class StreamingTestExecutor {
     private lineBuffer: string = '';
-    private stderrBuffer: string = '';
+    private stderrLineBuffer: string = '';
+    private hasStructuredEvents = false;
     private process: ChildProcess | null = null;
     private timeoutHandle: NodeJS.Timeout | null = null;
 
     /**
      * Execute a command with streaming output
+     * @param argv Executable and its arguments, passed to the process as they are (no shell)
      */
-    public async executeWithStreaming(command: string, options: StreamingOptions): Promise<void> {
+    public async executeWithStreaming(argv: string[], options: StreamingOptions): Promise<void> {
         return new Promise((resolve, reject) => {
             try {
-                // When using shell: true, pass the entire command as a single string
-                // This ensures complex commands (like Docker with environment variables) work correctly
-                
+                this.hasStructuredEvents = false;
+
+                if (argv.length === 0) {
+                    throw new Error('Empty command');
+                }
+
                 // Logging will be handled by the caller via onOutput callback
 
-                // Spawn the process with shell
-                // Use sh -c on Unix or cmd /c on Windows to execute the full command string
-                this.process = spawn(command, {
+                // Spawn the executable directly: arguments (paths, filters, env values) never reach a shell
+                this.process = spawn(argv[0], argv.slice(1), {
                     cwd: options.cwd,
-                    shell: true,
+                    env: options.env ? { ...process.env, ...options.env } : undefined,
                     stdio: ['ignore', 'pipe', 'pipe'],
                 });
 
@@ -57,16 +119,16 @@ export class StreamingTestExecutor {
                     this.processChunk(data, options);
                 });
 
-                // Handle stderr (errors)
+                // Handle stderr (errors, and the structured event stream)
                 this.process.stderr?.on('data', (chunk: Buffer) => {
-                    const data = chunk.toString();
-                    this.stderrBuffer += data;
-                    options.onOutput(data);
-                    this.processChunk(data, options);
+                    this.processStderrChunk(chunk.toString(), options);
                 });
 
                 // Handle process completion
                 this.process.on('close', (code: number | null, signal: string | null) => {
+                    if (this.stderrLineBuffer) {
+                        this.processStderrLine(this.stderrLineBuffer, options);
+                    }
                     this.cleanup();
                     
                     if (signal === 'SIGTERM') {
@@ -104,50 +166,6 @@ export class StreamingTestExecutor {
         this.cleanup();
     }
 
-    /**
-     * Parse command string into executable and args for spawn
-     */
-    private parseCommand(command: string): { executable: string; args: string[] } {
-        // For shell commands, we'll use shell: true, so just split by spaces
-        // But handle quoted arguments properly
-        const parts: string[] = [];
-        let current = '';
-        let inQuotes = false;
-        let quoteChar = '';
-
-        for (let i = 0; i < command.length; i++) {
-            const char = command[i];
-
-            if ((char === '"' || char === "'") && !inQuotes) {
-                inQuotes = true;
-                quoteChar = char;
-            } else if (char === quoteChar && inQuotes) {
-                inQuotes = false;
-                quoteChar = '';
-            } else if (char === ' ' && !inQuotes) {
-                if (current.trim()) {
-                    parts.push(current.trim());
-                    current = '';
-                }
-            } else {
-                current += char;
-            }
-        }
-
-        if (current.trim()) {
-            parts.push(current.trim());
-        }
-
-        if (parts.length === 0) {
-            throw new Error('Empty command');
-        }
-
-        return {
-            executable: parts[0],
-            args: parts.slice(1),
-        };
-    }
-
     /**
      * Process output chunks and extract complete lines
      */
@@ -164,11 +182,47 @@ export class StreamingTestExecutor {
         }
     }
 
+    /**
+     * Process stderr chunks line by line, separating event lines from regular output
+     */
+    private processStderrChunk(chunk: string, options: StreamingOptions): void {
+        this.stderrLineBuffer += chunk;
+        const lines = this.stderrLineBuffer.split('\n');
+        this.stderrLineBuffer = lines.pop() || '';
+
+        for (const line of lines) {
+            this.processStderrLine(`${line}\n`, options);
+        }
+    }
+
+    private processStderrLine(line: string, options: StreamingOptions): void {
+        const markerIndex = line.indexOf(RESULT_EVENT_MARKER);
+        if (markerIndex < 0) {
+            options.onOutput(line);
+            this.parseLine(line.trim(), options);
+            return;
+        }
+
+        // Output written before the event on the same line is still regular output
+        if (markerIndex > 0) {
+            options.onOutput(line.substring(0, markerIndex));
+        }
+
+        try {
+            const event = JSON.parse(line.substring(markerIndex + RESULT_EVENT_MARKER.length)) as TestResultEvent;
+            this.hasStructuredEvents = true;
+            options.onTestEvent?.(event);
+        } catch {
+            options.onOutput(line.substring(markerIndex));
+        }
+    }
+
     /**
      * Parse a single line of output for test results
+     * Only used when the structured event stream is not available
      */
     private parseLine(line: string, options: StreamingOptions): void {
-        if (!line) {
+        if (!line || this.hasStructuredEvents) {
             return;
         }
 
@@ -237,7 +291,7 @@ export class StreamingTestExecutor {
             this.timeoutHandle = null;
         }
         this.lineBuffer = '';
-        this.stderrBuffer = '';
+        this.stderrLineBuffer = '';
     }
 }
 
@@ -1,36 +1,136 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
-import { exec } from 'child_process';
+import { execFile } from 'child_process';
 import { promisify } from 'util';
 import * as glob from 'glob';
 import { PhpTestParser } from './phpParser';
-import { ParsedTestFile } from './types';
-import { StreamingTestExecutor } from './streamingExecutor';
+import { PhpClassIndex } from './phpClassIndex';
+import { TestDependencyGraph } from './dependencyGraph';
+import { GherkinParser } from './gherkinParser';
+import { CodeceptionConfigReader } from './codeceptionConfig';
+import { ParsedTestFile, CodeceptionProject, CodeceptionSuite, FileCoverageData, FailedTestEntry, TestResultEvent, HookCommand, HookStage, TestRunResult, NamedRunProfile, ExecutionTarget } from './types';
+import { StreamingTestExecutor, RESULT_EVENT_MARKER, splitCommandLine, formatCommand } from './streamingExecutor';
+import { ShardPlanner } from './shardPlanner';
+import { ContinuousRunManager } from './continuousRun';
+import { DebugSessionManager } from './debugSession';
+import { HookRunner } from './hookRunner';
+import { ActorBuildTracker } from './actorBuildTracker';
+import { RunHistory } from './runHistory';
+import { FlakyTestsView } from './flakyTestsView';
 import { CoverageParser } from './coverageParser';
 import { CoverageManager } from './coverageManager';
 import { JunitParser } from './junitParser';
+import { FailedTestsParser } from './failedTestsParser';
 import { DockerService } from './dockerService';
+import { RunnerBackend } from './runnerBackend';
 
-const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
+
+// Test files Codeception can run: PHPUnit-style tests, Cests, Cepts and Gherkin features
+const TEST_FILE_PATTERN = '**/*{Test.php,Cest.php,Cept.php,.feature}';
+const TEST_FILE_REGEX = /(Test|Cest|Cept)\.php$|\.feature$/;
+
+// Prefix of the tags holding a test's @env environments
+const ENV_TAG_PREFIX = 'env:';
+
+// Tag of the tests listed in Codeception's failed tests list
+const FAILED_TAG = new vscode.TestTag('failed');
+
+// Tag of the tests the run history found both passing and failing on one commit
+const FLAKY_TAG = new vscode.TestTag('flaky');
+
+// Codeception extension of the adapter reporting structured per-test events (shipped in resources/codeception)
+const REPORTER_CLASS = 'CodeceptionVscodeReporter';
+const REPORTER_SOURCE = path.join(__dirname, '..', 'resources', 'codeception', `${REPORTER_CLASS}.php`);
+
+// Codeception group the tests of a batched run are written to
+const SELECTION_GROUP = 'vscode-selection';
+
+// Message of a test that was run but for which Codeception reported no result
+const NO_RESULT_MESSAGE = 'Codeception reported no result for this test (its filter matched no test, or the run stopped before it)';
+
+// Delay before re-parsing changed files, so bursts of saves cause a single update
+const FILE_UPDATE_DEBOUNCE_MS = 300;
+
+/**
+ * A root of the test tree: one Codeception project in a workspace folder
+ */
+interface CodeceptionRoot {
+    folder: vscode.WorkspaceFolder;
+    project: CodeceptionProject;
+    /** Test item ID of the root item (unused when it is the only root) */
+    id: string;
+    /** Prefix of every suite ID in this root ('' when it is the only root) */
+    idPrefix: string;
+}
 
 export class CodeceptionTestProvider {
     private testController: vscode.TestController;
-    private workspaceRoot: string;
     private fileWatcher?: vscode.FileSystemWatcher;
+    private configWatcher?: vscode.FileSystemWatcher;
+    private workspaceFoldersListener?: vscode.Disposable;
+    private pendingFileUpdates = new Map<string, vscode.Uri>();
+    private fileUpdateTimer?: NodeJS.Timeout;
     private phpParser: PhpTestParser;
+    private classIndex: PhpClassIndex;
+    private dependencyGraph = new TestDependencyGraph();
+    private gherkinParser: GherkinParser;
+    private configReader: CodeceptionConfigReader;
+    private roots: CodeceptionRoot[] = [];
+    // Root and included (monorepo) projects by project item ID, and every discovered suite by suite ID
+    private projects = new Map<string, { root: CodeceptionRoot; project: CodeceptionProject }>();
+    private suites = new Map<string, { root: CodeceptionRoot; project: CodeceptionProject; suite: CodeceptionSuite; item: vscode.TestItem }>();
     private outputChannel: vscode.OutputChannel;
     private streamingExecutor: StreamingTestExecutor;
     private coverageParser: CoverageParser;
     private coverageManager: CoverageManager;
     private junitParser: JunitParser;
+    private failedTestsParser: FailedTestsParser;
+    // IDs of the tests in the failed tests lists of the last runs
+    private failedTests = new Set<string>();
+    // IDs of the tests the run history reports as flaky
+    private flakyTests = new Set<string>();
     private dockerService: DockerService;
-
-    constructor(controller: vscode.TestController, outputChannel: vscode.OutputChannel, coverageManager: CoverageManager) {
+    // Containers of the codeceptionphp.docker.service Compose services, by workspace folder path (resolved before each run)
+    private serviceContainers = new Map<string, string>();
+    // Compose project names, by Compose file
+    private composeProjects = new Map<string, string>();
+    private runnerBackend: RunnerBackend;
+    // One run profile per Codeception environment, plus a combined one when there are several
+    private envProfiles: vscode.TestRunProfile[] = [];
+    // Run profiles of codeceptionphp.profiles, recreated when the setting changes
+    private namedProfiles: vscode.TestRunProfile[] = [];
+    private profilesListener?: vscode.Disposable;
+    // Named profile of each active run, by run ID (commands find it through their run directory)
+    private runProfiles = new Map<string, NamedRunProfile>();
+    private envNames: string[] = [];
+    private selectedEnvs?: string[];
+    // Retries chosen in a run profile's configuration, by profile label (overrides codeceptionphp.retry.count)
+    private retryCounts = new Map<string, number>();
+    private shardPlanner = new ShardPlanner();
+    // Durations (seconds) of test items from earlier runs, used to balance parallel shards
+    private testDurations = new Map<string, number>();
+    // Counter making the output directories of a run's Codeception processes unique
+    private runDirCounter = 0;
+    private continuousRuns: ContinuousRunManager;
+    private debugSessions: DebugSessionManager;
+    private hookRunner: HookRunner;
+    private actorBuilds: ActorBuildTracker;
+    private runHistory: RunHistory;
+    private flakyTestsView: FlakyTestsView;
+    private flakyTestsViewRegistration: vscode.Disposable;
+    private runHistoryListener: vscode.Disposable;
+
+    constructor(
+        controller: vscode.TestController,
+        outputChannel: vscode.OutputChannel,
+        coverageManager: CoverageManager,
+        runHistory: RunHistory
+    ) {
         this.outputChannel = outputChannel;
 
         this.testController = controller;
-        this.workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '';
 
         try {
             this.phpParser = new PhpTestParser(outputChannel);
@@ -39,18 +139,55 @@ export class CodeceptionTestProvider {
             throw error;
         }
 
+        this.classIndex = new PhpClassIndex(this.phpParser, outputChannel);
+        this.gherkinParser = new GherkinParser(outputChannel);
+        this.configReader = new CodeceptionConfigReader(outputChannel);
+
         // Initialize streaming executor
         this.streamingExecutor = new StreamingTestExecutor();
 
         // Initialize Docker service
         this.dockerService = new DockerService(outputChannel);
 
+        // Runs commands through the configured command template (ddev, Lando, Sail, ...)
+        this.runnerBackend = new RunnerBackend(outputChannel);
+
         // Initialize coverage components
         this.coverageManager = coverageManager;
         this.coverageParser = new CoverageParser(outputChannel, this.dockerService);
 
         // Initialize JUnit XML parser for accurate test results
         this.junitParser = new JunitParser(outputChannel, this.dockerService);
+        this.failedTestsParser = new FailedTestsParser(outputChannel, this.dockerService);
+
+        // Starts the php-debug sessions of the Debug profile
+        this.debugSessions = new DebugSessionManager(outputChannel);
+
+        // Runs the configured before-run, after-run and on-failure commands
+        this.hookRunner = new HookRunner(outputChannel);
+
+        // Detects stale generated actors, rebuilt before the next run of their suite
+        this.actorBuilds = new ActorBuildTracker(outputChannel);
+
+        // Results of earlier sessions: durations balance parallel shards, flips mark tests as flaky
+        this.runHistory = runHistory;
+        this.testDurations = runHistory.getLastDurations();
+        this.flakyTests = new Set(runHistory.getFlakyTests().map(flakyTest => flakyTest.testId));
+        this.runHistoryListener = runHistory.onDidChange(() => {
+            this.flakyTests = new Set(runHistory.getFlakyTests().map(flakyTest => flakyTest.testId));
+            this.applyResultTags();
+        });
+        this.flakyTestsView = new FlakyTestsView(runHistory, testId => this.findTestItem(testId));
+        this.flakyTestsViewRegistration = vscode.window.registerTreeDataProvider('codeceptionphp.flakyTests', this.flakyTestsView);
+
+        // Reruns affected tests on save while a continuous run is active
+        this.continuousRuns = new ContinuousRunManager(
+            outputChannel,
+            (request, token, coverage) => coverage ? this.runTestsWithCoverage(request, token) : this.runTests(request, token),
+            filePath => this.getTestsForFile(filePath),
+            testId => this.findTestItem(testId),
+            (test, ancestor) => this.isWithin(test, ancestor)
+        );
 
         // Set up refresh handler - called when user clicks the refresh button in Test Explorer
         controller.refreshHandler = async (token) => {
@@ -65,9 +202,12 @@ export class CodeceptionTestProvider {
             (request, token) => {
                 return this.runTests(request, token);
             },
+            true,
+            undefined,
             true
         );
         runProfile.isDefault = true;
+        runProfile.configureHandler = () => this.selectRetryCount(runProfile);
 
         // Set up coverage run profile
         const coverageProfile = controller.createRunProfile(
@@ -76,10 +216,23 @@ export class CodeceptionTestProvider {
             (request, token) => {
                 return this.runTestsWithCoverage(request, token);
             },
-            false
+            false,
+            undefined,
+            true
         );
         coverageProfile.isDefault = false;
 
+        // Set up profile rerunning the tests of Codeception's failed tests list
+        const rerunFailedProfile = controller.createRunProfile(
+            'Rerun Failed',
+            vscode.TestRunProfileKind.Run,
+            (request, token) => {
+                return this.rerunFailedTests(request, token);
+            },
+            false
+        );
+        rerunFailedProfile.isDefault = false;
+
         // Set up debug profile
         const debugProfile = controller.createRunProfile(
             'Debug',
@@ -91,19 +244,170 @@ export class CodeceptionTestProvider {
         );
         debugProfile.isDefault = false;
 
+        // Set up the profiles of named run configurations
+        this.updateNamedProfiles();
+        this.profilesListener = vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('codeceptionphp.profiles')) {
+                this.updateNamedProfiles();
+            }
+        });
+
         // Watch for test file changes
         this.setupFileWatcher();
+
+        // Add and remove roots as workspace folders change
+        this.workspaceFoldersListener = vscode.workspace.onDidChangeWorkspaceFolders(() => this.discoverTests());
     }
 
     private setupFileWatcher() {
-        // Create file system watcher for test files
-        this.fileWatcher = vscode.workspace.createFileSystemWatcher('**/*{Test,Cest,Cept}.php');
+        // Watch every PHP file, not just test files: base classes and traits provide test methods too
+        this.fileWatcher = vscode.workspace.createFileSystemWatcher('**/*{.php,.feature}');
 
-        // When files change, rediscover tests
+        // When files change, re-parse only the affected file (debounced)
         // Test results are preserved by VSCode (standard behavior)
-        this.fileWatcher.onDidCreate(() => this.discoverTests());
-        this.fileWatcher.onDidChange(() => this.discoverTests());
-        this.fileWatcher.onDidDelete(() => this.discoverTests());
+        this.fileWatcher.onDidCreate(uri => this.queueFileUpdate(uri));
+        this.fileWatcher.onDidChange(uri => this.queueFileUpdate(uri));
+        this.fileWatcher.onDidDelete(uri => this.queueFileUpdate(uri));
+
+        // Codeception config changes can add, remove or move suites
+        this.configWatcher = vscode.workspace.createFileSystemWatcher('**/*.yml');
+        const onConfigChange = (uri: vscode.Uri) => {
+            if (/(^|[\\/])(codeception(\.dist)?\.yml|[^\\/]+\.suite(\.dist)?\.yml)$/.test(uri.fsPath)) {
+                this.actorBuilds.handleChangedFile(uri.fsPath, this.suites);
+                this.discoverTests();
+            }
+        };
+        this.configWatcher.onDidCreate(onConfigChange);
+        this.configWatcher.onDidChange(onConfigChange);
+        this.configWatcher.onDidDelete(onConfigChange);
+    }
+
+    /**
+     * Queue a changed test file for re-parsing
+     * Bursts of saves are collapsed into a single update per file
+     */
+    private queueFileUpdate(uri: vscode.Uri) {
+        this.pendingFileUpdates.set(uri.fsPath, uri);
+
+        if (this.fileUpdateTimer) {
+            clearTimeout(this.fileUpdateTimer);
+        }
+        this.fileUpdateTimer = setTimeout(() => {
+            this.fileUpdateTimer = undefined;
+            const uris = Array.from(this.pendingFileUpdates.values());
+            this.pendingFileUpdates.clear();
+
+            for (const pendingUri of uris) {
+                this.updateTestFile(pendingUri);
+                this.actorBuilds.handleChangedFile(pendingUri.fsPath, this.suites);
+            }
+
+            this.continuousRuns.handleChangedFiles(uris.map(pendingUri => pendingUri.fsPath));
+        }, FILE_UPDATE_DEBOUNCE_MS);
+    }
+
+    /**
+     * Update the test items of a single file in place
+     * Handles created, changed and deleted files under any discovered suite
+     */
+    private updateTestFile(uri: vscode.Uri) {
+        const filePath = uri.fsPath;
+
+        if (filePath.endsWith('.php') && this.isInTestsDir(filePath)) {
+            // Classes inheriting from (or using) this file must be re-resolved, before and after the change
+            const dependents = new Set(this.classIndex.getDependentFiles(filePath));
+            this.classIndex.updateFile(filePath);
+            this.classIndex.getDependentFiles(filePath).forEach(dependent => dependents.add(dependent));
+
+            for (const dependent of dependents) {
+                this.updateTestItems(dependent);
+            }
+        }
+
+        this.updateTestItems(filePath);
+        this.reportDependencyErrors();
+        this.applyResultTags();
+    }
+
+    /**
+     * Re-parse the test items of a single test file
+     */
+    private updateTestItems(filePath: string) {
+        if (!TEST_FILE_REGEX.test(filePath)) {
+            return;
+        }
+
+        const suiteEntry = this.findSuiteForFile(filePath);
+        if (!suiteEntry) {
+            // Not inside a discovered suite - nothing to update
+            return;
+        }
+
+        const { suiteId, item: suiteItem } = suiteEntry;
+        const fileId = `${suiteId}:${path.relative(this.getWorkspaceRoot(suiteId), filePath)}`;
+
+        try {
+            if (!fs.existsSync(filePath)) {
+                suiteItem.children.delete(fileId);
+                this.dependencyGraph.removeFile(fileId);
+                return;
+            }
+
+            if (filePath.endsWith('.feature')) {
+                this.parseFeatureFile(filePath, suiteId, suiteItem);
+            } else {
+                this.parseTestFile(filePath, suiteId, suiteItem);
+            }
+        } catch (error: any) {
+            const errorMessage = error?.message || String(error);
+            this.outputChannel.appendLine(`[Discovery] ERROR updating ${filePath}: ${errorMessage}`);
+        }
+    }
+
+    /**
+     * Find the test item of a test file (empty when the file isn't a discovered test file)
+     */
+    private getTestsForFile(filePath: string): vscode.TestItem[] {
+        const suiteEntry = this.findSuiteForFile(filePath);
+        if (!suiteEntry) {
+            return [];
+        }
+
+        const fileId = `${suiteEntry.suiteId}:${path.relative(this.getWorkspaceRoot(suiteEntry.suiteId), filePath)}`;
+        const fileItem = suiteEntry.item.children.get(fileId);
+        return fileItem ? [fileItem] : [];
+    }
+
+    /**
+     * Check whether a file lives in the tests directory of a discovered project
+     */
+    private isInTestsDir(filePath: string): boolean {
+        for (const { project } of this.suites.values()) {
+            const relative = path.relative(project.testsDir, filePath);
+            if (relative && !relative.startsWith('..') && !path.isAbsolute(relative)) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * Find the suite a test file belongs to (the deepest suite directory containing it)
+     */
+    private findSuiteForFile(filePath: string): { suiteId: string; item: vscode.TestItem } | undefined {
+        let match: { suiteId: string; item: vscode.TestItem; depth: number } | undefined;
+
+        for (const [suiteId, entry] of this.suites) {
+            const relative = path.relative(entry.suite.path, filePath);
+            if (relative && !relative.startsWith('..') && !path.isAbsolute(relative)) {
+                const depth = entry.suite.path.length;
+                if (!match || depth > match.depth) {
+                    match = { suiteId, item: entry.item, depth };
+                }
+            }
+        }
+
+        return match;
     }
 
     /**
@@ -113,21 +417,36 @@ export class CodeceptionTestProvider {
         if (this.fileWatcher) {
             this.fileWatcher.dispose();
         }
+        if (this.configWatcher) {
+            this.configWatcher.dispose();
+        }
+        if (this.workspaceFoldersListener) {
+            this.workspaceFoldersListener.dispose();
+        }
+        if (this.fileUpdateTimer) {
+            clearTimeout(this.fileUpdateTimer);
+        }
+        this.envProfiles.forEach(profile => profile.dispose());
+        this.namedProfiles.forEach(profile => profile.dispose());
+        this.profilesListener?.dispose();
+        this.runHistoryListener.dispose();
+        this.flakyTestsViewRegistration.dispose();
+        this.flakyTestsView.dispose();
     }
 
     /**
      * Get Docker configuration if enabled
+     * @param profile Named run profile whose target overrides the configured one
      * @returns Docker configuration object or null if Docker is not enabled
      */
-    private getDockerConfig(): { container: string; workdir: string } | null {
-        const config = vscode.workspace.getConfiguration('codeceptionphp');
-        const useDocker = config.get<boolean>('docker.enabled', false);
+    private getDockerConfig(testId?: string, profile?: NamedRunProfile): { container: string; workdir: string } | null {
+        const config = this.getConfiguration(testId);
 
-        if (!useDocker) {
+        if (this.getExecutionTarget(testId, profile) !== 'docker') {
             return null;
         }
 
-        const container = config.get<string>('docker.container', '');
+        const container = this.getDockerContainer(testId);
         const workdir = config.get<string>('docker.workdir', '');
 
         if (!container) {
@@ -139,10 +458,9 @@ export class CodeceptionTestProvider {
 
     /**
      * Auto-discover available test suites from the tests directory
+     * Used when no codeception.yml can be found
      */
-    private discoverAvailableSuites(): string[] {
-        const testsDir = path.join(this.workspaceRoot, 'tests');
-
+    private discoverAvailableSuites(testsDir: string): string[] {
         if (!fs.existsSync(testsDir)) {
             return [];
         }
@@ -155,7 +473,7 @@ export class CodeceptionTestProvider {
                 // Only include directories that contain test files
                 if (entry.isDirectory()) {
                     const suiteDir = path.join(testsDir, entry.name);
-                    const pattern = path.join(suiteDir, '**/*{Test,Cest,Cept}.php');
+                    const pattern = path.join(suiteDir, TEST_FILE_PATTERN);
                     const files = glob.sync(pattern);
 
                     // Only add suite if it has test files
@@ -172,8 +490,85 @@ export class CodeceptionTestProvider {
         }
     }
 
+    /**
+     * Load every Codeception project of a workspace folder
+     * The configured codeception.yml comes first, followed by any other codeception.yml found inside the folder
+     * that is not already pulled in through another project's `include:`.
+     * Falls back to the conventional tests/<suite> layout when the folder has no config file.
+     */
+    private loadProjects(folder: vscode.WorkspaceFolder): CodeceptionProject[] {
+        const folderRoot = folder.uri.fsPath;
+        const config = vscode.workspace.getConfiguration('codeceptionphp', folder.uri);
+        const configFile = config.get<string>('configFile', 'codeception.yml');
+        const primaryConfig = this.configReader.findConfigFile(folderRoot, configFile);
+
+        // One config per directory: the configured file, otherwise codeception.yml over codeception.dist.yml
+        const configsByDir = new Map<string, string>();
+        if (primaryConfig) {
+            configsByDir.set(path.dirname(primaryConfig), primaryConfig);
+        }
+        const foundConfigs = glob.sync('**/codeception{,.dist}.yml', {
+            cwd: folderRoot,
+            absolute: true,
+            ignore: ['**/vendor/**', '**/node_modules/**'],
+        }).sort();
+        for (const configPath of foundConfigs) {
+            const dir = path.dirname(configPath);
+            if (!configsByDir.has(dir)) {
+                const configFileInDir = this.configReader.findConfigFile(dir);
+                if (configFileInDir) {
+                    configsByDir.set(dir, configFileInDir);
+                }
+            }
+        }
+
+        const projects: CodeceptionProject[] = [];
+        for (const configPath of configsByDir.values()) {
+            const project = this.configReader.loadProject(configPath);
+            if (project) {
+                this.outputChannel.appendLine(`[Discovery] Using config: ${configPath}`);
+                projects.push(project);
+            }
+        }
+
+        // Projects included by another project are shown nested under it instead
+        const includedDirs = new Set<string>();
+        const collectIncludes = (project: CodeceptionProject) => {
+            for (const included of project.includes) {
+                includedDirs.add(included.rootDir);
+                collectIncludes(included);
+            }
+        };
+        projects.forEach(collectIncludes);
+        const rootProjects = projects.filter(project => !includedDirs.has(project.rootDir));
+
+        if (rootProjects.length > 0) {
+            return rootProjects;
+        }
+
+        const testsDir = path.join(folderRoot, 'tests');
+        const suites = this.discoverAvailableSuites(testsDir);
+        if (suites.length === 0) {
+            return [];
+        }
+
+        this.outputChannel.appendLine(`[Discovery] ${configFile} not found in ${folder.name} - assuming tests/ directory layout`);
+        return [{
+            configPath: path.resolve(folderRoot, configFile),
+            rootDir: folderRoot,
+            testsDir,
+            outputDir: path.join(testsDir, '_output'),
+            supportDir: path.join(testsDir, '_support'),
+            suites: suites.map(name => ({ name, path: path.join(testsDir, name) })),
+            envs: this.configReader.resolveEnvs(path.join(testsDir, '_envs')),
+            includes: [],
+        }];
+    }
+
     /**
      * Discovers tests from the workspace.
+     * Every workspace folder, and every Codeception project inside it, becomes a root in the test tree.
+     * A single root is flattened so its suites appear at the top level.
      * Test results are preserved across discovery - this matches the behavior
      * of popular test extensions (Jest, Python Test Explorer, etc.)
      * Users can re-run tests to update their states.
@@ -183,62 +578,225 @@ export class CodeceptionTestProvider {
         // Note: VSCode preserves test results by TestController ID + TestItem ID
         // So when we recreate items with the same IDs, previous results are retained
         this.testController.items.replace([]);
+        this.projects.clear();
+        this.suites.clear();
+        this.dependencyGraph.clear();
+        this.actorBuilds.clear();
+
+        const discovered: Array<{ folder: vscode.WorkspaceFolder; project: CodeceptionProject; label: string }> = [];
+        for (const folder of vscode.workspace.workspaceFolders || []) {
+            for (const project of this.loadProjects(folder)) {
+                const relativeDir = this.toPosixPath(path.relative(folder.uri.fsPath, project.rootDir));
+                discovered.push({ folder, project, label: relativeDir ? `${folder.name}/${relativeDir}` : folder.name });
+            }
+        }
 
-        const config = vscode.workspace.getConfiguration('codeceptionphp');
-        const configuredSuites = config.get<string[]>('suites');
+        const isSingleRoot = discovered.length === 1;
+        this.roots = discovered.map(({ folder, project, label }) => ({
+            folder,
+            project,
+            id: label,
+            idPrefix: isSingleRoot ? '' : `${label}/`,
+        }));
+
+        for (const root of this.roots) {
+            const config = vscode.workspace.getConfiguration('codeceptionphp', root.folder.uri);
+            const configuredSuites = config.get<string[]>('suites');
+            const project = root.project;
+
+            // If suites are explicitly configured, use them for the folder's own project
+            // Otherwise, use the suites defined by codeception.yml
+            if (configuredSuites && configuredSuites.length > 0 && project.rootDir === root.folder.uri.fsPath) {
+                project.suites = configuredSuites.map(name =>
+                    project.suites.find(suite => suite.name === name) || { name, path: path.join(project.testsDir, name) }
+                );
+                this.outputChannel.appendLine(`[Discovery] ${root.id}: using configured suites: ${configuredSuites.join(', ')}`);
+            } else {
+                this.outputChannel.appendLine(`[Discovery] ${root.id}: auto-discovered suites: ${project.suites.map(suite => suite.name).join(', ')}`);
+            }
 
-        let suites: string[];
+            if (isSingleRoot) {
+                await this.discoverProjectTests(root, project, this.testController.items, '');
+                continue;
+            }
 
-        // If suites are explicitly configured, use them
-        // Otherwise, auto-discover from the tests directory
-        if (configuredSuites && configuredSuites.length > 0) {
-            suites = configuredSuites;
-            this.outputChannel.appendLine(`[Discovery] Using configured suites: ${suites.join(', ')}`);
-        } else {
-            suites = this.discoverAvailableSuites();
-            this.outputChannel.appendLine(`[Discovery] Auto-discovered suites: ${suites.join(', ')}`);
+            const rootItem = this.testController.createTestItem(
+                root.id,
+                root.id,
+                vscode.Uri.file(project.rootDir)
+            );
+            rootItem.canResolveChildren = true;
+            this.projects.set(root.id, { root, project });
+
+            await this.discoverProjectTests(root, project, rootItem.children, root.idPrefix);
+
+            if (rootItem.children.size > 0) {
+                this.testController.items.add(rootItem);
+            }
         }
 
-        for (const suite of suites) {
-            await this.discoverSuiteTests(suite);
+        this.updateEnvProfiles();
+        this.reportDependencyErrors();
+        await this.refreshFailedTests();
+        this.flakyTestsView.refresh();
+    }
+
+    /**
+     * Discover the suites of a project, and of the projects it includes, into a test item collection
+     * Included projects become nested project items whose suite IDs are prefixed with the project directory
+     */
+    private async discoverProjectTests(
+        root: CodeceptionRoot,
+        project: CodeceptionProject,
+        collection: vscode.TestItemCollection,
+        suiteIdPrefix: string
+    ) {
+        // Index base classes and traits first so test classes can resolve inherited methods
+        this.classIndex.indexDirectory(project.testsDir);
+
+        for (const suite of project.suites) {
+            await this.discoverSuiteTests(root, project, suite, `${suiteIdPrefix}${suite.name}`, collection);
+        }
+
+        const folderRoot = root.folder.uri.fsPath;
+        for (const included of project.includes) {
+            const relativeDir = this.toPosixPath(path.relative(folderRoot, included.rootDir));
+            const projectId = `${root.idPrefix}${this.toPosixPath(path.relative(folderRoot, included.configPath))}`;
+
+            const projectItem = this.testController.createTestItem(
+                projectId,
+                relativeDir,
+                vscode.Uri.file(included.rootDir)
+            );
+            projectItem.canResolveChildren = true;
+            this.projects.set(projectId, { root, project: included });
+
+            await this.discoverProjectTests(root, included, projectItem.children, `${root.idPrefix}${relativeDir}/`);
+
+            if (projectItem.children.size > 0) {
+                collection.add(projectItem);
+            }
         }
     }
 
-    private async discoverSuiteTests(suite: string) {
-        const testsDir = path.join(this.workspaceRoot, 'tests', suite);
+    private async discoverSuiteTests(
+        root: CodeceptionRoot,
+        project: CodeceptionProject,
+        suite: CodeceptionSuite,
+        suiteId: string,
+        collection: vscode.TestItemCollection
+    ) {
+        const testsDir = suite.path;
 
         if (!fs.existsSync(testsDir)) {
             return;
         }
 
         // Find all test files
-        const pattern = path.join(testsDir, '**/*{Test,Cest,Cept}.php');
+        const pattern = path.join(testsDir, TEST_FILE_PATTERN);
         const files = glob.sync(pattern);
 
         // Create suite item if it doesn't exist
-        let suiteItem = this.testController.items.get(suite);
+        let suiteItem = collection.get(suiteId);
         if (!suiteItem) {
             suiteItem = this.testController.createTestItem(
-                suite,
-                suite.charAt(0).toUpperCase() + suite.slice(1),
+                suiteId,
+                suite.name.charAt(0).toUpperCase() + suite.name.slice(1),
                 vscode.Uri.file(testsDir)
             );
             // Suite items can have children (test files)
             suiteItem.canResolveChildren = true;
-            this.testController.items.add(suiteItem);
+            collection.add(suiteItem);
         }
 
+        this.suites.set(suiteId, { root, project, suite, item: suiteItem });
+
         for (const file of files) {
-            await this.parseTestFile(file, suite, suiteItem);
+            if (file.endsWith('.feature')) {
+                this.parseFeatureFile(file, suiteId, suiteItem);
+            } else {
+                this.parseTestFile(file, suiteId, suiteItem);
+            }
         }
     }
 
-    private async parseTestFile(filePath: string, suite: string, suiteItem: vscode.TestItem) {
+    /**
+     * Parse a Gherkin .feature file into Feature -> Scenario / Scenario Outline -> Examples row items
+     * Scenario ID format: "suite:file::Scenario name" (runs as file.feature:Scenario name)
+     */
+    private parseFeatureFile(filePath: string, suite: string, suiteItem: vscode.TestItem) {
         const uri = vscode.Uri.file(filePath);
-        const relativePath = path.relative(this.workspaceRoot, filePath);
+        const relativePath = path.relative(this.getWorkspaceRoot(suite), filePath);
+        const fileId = `${suite}:${relativePath}`;
 
-        // Create file test item
+        const feature = this.gherkinParser.parseFeatureFile(filePath);
+        if (!feature || feature.scenarios.length === 0) {
+            suiteItem.children.delete(fileId);
+            return;
+        }
+
+        let fileItem = suiteItem.children.get(fileId);
+        if (!fileItem) {
+            fileItem = this.testController.createTestItem(
+                fileId,
+                path.basename(filePath),
+                uri
+            );
+            fileItem.canResolveChildren = true;
+            suiteItem.children.add(fileItem);
+        }
+
+        fileItem.description = feature.name || undefined;
+        fileItem.range = new vscode.Range(feature.line - 1, 0, feature.line - 1, 0);
+        fileItem.tags = feature.tags.map(tag => new vscode.TestTag(tag));
+
+        // Rebuild the scenarios in place (the file item keeps its identity on updates)
+        fileItem.children.replace([]);
+
+        for (const scenario of feature.scenarios) {
+            const scenarioId = `${fileId}::${scenario.name}`;
+            const scenarioItem = this.testController.createTestItem(
+                scenarioId,
+                scenario.name,
+                uri
+            );
+            scenarioItem.range = new vscode.Range(scenario.line - 1, 0, scenario.endLine - 1, 0);
+            scenarioItem.canResolveChildren = false;
+            scenarioItem.tags = scenario.tags.map(tag => new vscode.TestTag(tag));
+
+            // Example rows of a Scenario Outline run through their outline
+            scenario.examples.forEach((example, index) => {
+                const exampleItem = this.testController.createTestItem(
+                    `${scenarioId}#${index}`,
+                    `| ${example.values.join(' | ')} |`,
+                    uri
+                );
+                exampleItem.range = new vscode.Range(example.line - 1, 0, example.line - 1, 0);
+                exampleItem.tags = example.tags.map(tag => new vscode.TestTag(tag));
+                scenarioItem.children.add(exampleItem);
+            });
+
+            fileItem.children.add(scenarioItem);
+        }
+    }
+
+    private parseTestFile(filePath: string, suite: string, suiteItem: vscode.TestItem) {
+        const uri = vscode.Uri.file(filePath);
+        const relativePath = path.relative(this.getWorkspaceRoot(suite), filePath);
         const fileId = `${suite}:${relativePath}`;
+
+        // Try AST parsing first
+        const parsed = this.classIndex.updateFile(filePath);
+        this.dependencyGraph.removeFile(fileId);
+
+        // Abstract base classes and traits can't be run on their own
+        // Their test methods appear under the concrete classes that inherit them
+        if (parsed.isAbstract || parsed.isTrait) {
+            suiteItem.children.delete(fileId);
+            return;
+        }
+
+        // Create file test item
         let fileItem = suiteItem.children.get(fileId);
 
         if (!fileItem) {
@@ -252,28 +810,31 @@ export class CodeceptionTestProvider {
             suiteItem.children.add(fileItem);
         }
 
-        // Try AST parsing first
-        const parsed = this.phpParser.parseTestFile(filePath);
+        // Rebuild the methods in place (the file item keeps its identity on updates)
+        fileItem.children.replace([]);
+
+        const methods = this.classIndex.resolveTestMethods(parsed, filePath);
 
         // If AST parsing found no methods, fall back to regex parsing
         // This handles cases where:
         // - AST parsing failed silently
         // - File has no test methods
         // - File uses syntax not supported by parser
-        if (parsed.methods.length === 0) {
+        if (methods.length === 0) {
             this.parseTestFileRegex(filePath, fileId, fileItem, uri);
             return;
         }
 
-        // Process AST-parsed methods
-        for (const method of parsed.methods) {
+        // Process AST-parsed methods (inherited ones point at the file declaring them)
+        for (const { method, filePath: declaringFile } of methods) {
             const testId = `${fileId}::${method.name}`;
+            const methodUri = declaringFile === filePath ? uri : vscode.Uri.file(declaringFile);
 
             // Create test item with accurate line numbers
             const testItem = this.testController.createTestItem(
                 testId,
                 method.name,
-                uri
+                methodUri
             );
 
             // Set accurate range from AST
@@ -285,36 +846,50 @@ export class CodeceptionTestProvider {
             );
 
             // Ensure test item can be run (required for coverage support)
-            testItem.canResolveChildren = false; // Leaf nodes don't have children
+            testItem.canResolveChildren = false; // Children (datasets) are added eagerly below
+
+            // Add test groups as tags, and @env environments as "env:<name>" tags
+            const tags = [
+                ...(method.annotations.groups || []).map(group => new vscode.TestTag(group)),
+                ...(method.annotations.envs || []).map(env => new vscode.TestTag(`${ENV_TAG_PREFIX}${env}`)),
+            ];
+            if (tags.length > 0) {
+                testItem.tags = tags;
+            }
 
-            // Add test groups as tags
-            if (method.annotations.groups && method.annotations.groups.length > 0) {
-                testItem.tags = method.annotations.groups.map(group =>
-                    new vscode.TestTag(group)
-                );
+            // Surface #[Skip] / @skip next to the test name
+            if (method.annotations.skip !== undefined) {
+                testItem.description = method.annotations.skip ? `skipped: ${method.annotations.skip}` : 'skipped';
             }
 
-            // Handle data providers
-            if (method.annotations.dataProvider) {
-                // For data providers, create a parent test item
-                // The actual data provider datasets would be discovered by parsing the data provider method
-                // For now, we create a single test item indicating it uses a data provider
-                const dataProviderTestId = `${testId}[${method.annotations.dataProvider}]`;
-                const dataProviderItem = this.testController.createTestItem(
-                    dataProviderTestId,
-                    `${method.name} (${method.annotations.dataProvider})`,
-                    uri
-                );
-                dataProviderItem.range = testItem.range;
-                if (method.annotations.groups && method.annotations.groups.length > 0) {
-                    dataProviderItem.tags = method.annotations.groups.map(group =>
-                        new vscode.TestTag(group)
+            // Regular test methods and data provider methods both get an item
+            fileItem.children.add(testItem);
+
+            if (method.annotations.depends) {
+                this.dependencyGraph.setDependencies(testId, method.annotations.depends.map(target => ({
+                    target,
+                    testId: this.resolveDependency(target, fileId),
+                })));
+            }
+
+            // Expand statically resolved data provider datasets into child items
+            // Dataset ID format: "suite:file::methodName#key" (runs as file:methodName#key)
+            if (method.dataSets) {
+                for (const dataSet of method.dataSets) {
+                    const dataSetItem = this.testController.createTestItem(
+                        `${testId}#${dataSet.key}`,
+                        dataSet.label || (dataSet.isIndex ? `#${dataSet.key}` : dataSet.key),
+                        methodUri
+                    );
+                    dataSetItem.range = new vscode.Range(
+                        dataSet.line - 1,
+                        0,
+                        dataSet.endLine - 1,
+                        0
                     );
+                    dataSetItem.tags = testItem.tags;
+                    testItem.children.add(dataSetItem);
                 }
-                fileItem.children.add(dataProviderItem);
-            } else {
-                // Regular test method without data provider
-                fileItem.children.add(testItem);
             }
         }
     }
@@ -361,17 +936,54 @@ export class CodeceptionTestProvider {
         }
     }
 
-    private async runTests(request: vscode.TestRun | vscode.TestRunRequest, token: vscode.CancellationToken) {
+    /**
+     * Run tests, once per environment when environments are given
+     * Each environment gets its own named test run, so results are kept per environment
+     */
+    private async runTests(
+        request: vscode.TestRun | vscode.TestRunRequest,
+        token: vscode.CancellationToken,
+        envs?: string[],
+        profile?: NamedRunProfile
+    ) {
+        if ((request as vscode.TestRunRequest).continuous) {
+            return this.continuousRuns.watch(request as vscode.TestRunRequest, token, false);
+        }
+
+        if (envs && envs.length > 0) {
+            for (const env of envs) {
+                if (token.isCancellationRequested) {
+                    break;
+                }
+                await this.runTestQueue(request, token, env, profile);
+            }
+            return;
+        }
+
         // Check if coverage should always run
-        const config = vscode.workspace.getConfiguration('codeceptionphp');
+        const config = this.getConfiguration((request as vscode.TestRunRequest).include?.[0]?.id);
         const alwaysRunCoverage = config.get<boolean>('coverage.alwaysRun', false);
 
         if (alwaysRunCoverage) {
             this.outputChannel.appendLine('[TestRun] Coverage always enabled - delegating to coverage run');
-            return this.runTestsWithCoverage(request as vscode.TestRunRequest, token);
+            return this.runTestsWithCoverage(request as vscode.TestRunRequest, token, profile);
         }
 
-        const run = this.testController.createTestRun(request as vscode.TestRunRequest);
+        await this.runTestQueue(request, token, undefined, profile);
+    }
+
+    private async runTestQueue(
+        request: vscode.TestRun | vscode.TestRunRequest,
+        token: vscode.CancellationToken,
+        env?: string,
+        profile?: NamedRunProfile
+    ) {
+        const results = new Map<vscode.TestItem, TestRunResult>();
+        const runName = [profile?.name, env].filter(Boolean).join(', ');
+        const run = this.trackResults(this.testController.createTestRun(
+            request as vscode.TestRunRequest,
+            runName ? `Codeception (${runName})` : undefined
+        ), results);
         const queue: vscode.TestItem[] = [];
 
         // Collect tests to run
@@ -385,30 +997,810 @@ export class CodeceptionTestProvider {
         const cancellationToken = token.onCancellationRequested(() => {
             this.streamingExecutor.cancel();
         });
+        const runId = this.coverageManager.createRunId();
+        if (profile) {
+            this.runProfiles.set(runId, profile);
+        }
+        let hooksPassed = false;
+
+        try {
+            hooksPassed = await this.runBeforeHooks(queue, run, token, profile);
+            if (!hooksPassed) {
+                return;
+            }
+
+            // Split the run over several Codeception processes when parallel workers are configured
+            const workers = this.getConfiguration(queue[0]?.id).get<number>('parallel.workers', 1);
+            if (workers > 1) {
+                await this.runSharded(queue, run, token, { env, runId });
+            } else {
+                await this.runBatches(queue, run, token, { env, runId });
+            }
+
+            const retries = this.getRetryCount(request, queue[0]?.id, profile);
+            await this.retryFailedTests(queue, run, token, results, { env, runId, retries });
+        } finally {
+            if (hooksPassed) {
+                await this.runAfterHooks(queue, run, token, results, profile);
+            }
+            cancellationToken.dispose();
+            run.end();
+            await this.recordRunHistory(queue, results, env);
+            await this.finishRun(runId);
+            this.runProfiles.delete(runId);
+            await this.refreshFailedTests(profile);
+        }
+    }
+
+    /**
+     * Run tests one suite batch after another
+     * Files and methods of the same suite run together in one Codeception process.
+     */
+    private async runBatches(
+        tests: vscode.TestItem[],
+        run: vscode.TestRun,
+        token: vscode.CancellationToken,
+        options: { env?: string; runId: string }
+    ): Promise<void> {
+        const { env, runId } = options;
+
+        for (const batch of this.groupTestsBySuite(tests)) {
+            if (token.isCancellationRequested) {
+                batch.tests.forEach(test => run.skipped(test));
+                continue;
+            }
+
+            if (batch.suiteId && batch.tests.length > 1) {
+                await this.runTestBatch(batch.suiteId, batch.tests, run, token, { env, runDir: this.createRunDir(runId) });
+            } else {
+                await this.runTest(batch.tests[0], run, token, env, this.createRunDir(runId));
+            }
+        }
+    }
+
+    /**
+     * Rerun the failed tests of a run in follow-up invocations, up to the configured number of retries
+     * Every attempt's output stays in the run. Tests passing on a retry keep their failed attempts in their result,
+     * so the run history flags them as flaky, and are listed apart in the run output.
+     */
+    private async retryFailedTests(
+        queue: vscode.TestItem[],
+        run: vscode.TestRun,
+        token: vscode.CancellationToken,
+        results: Map<vscode.TestItem, TestRunResult>,
+        options: { env?: string; runId: string; retries: number }
+    ): Promise<void> {
+        const { retries } = options;
+        const failedAttempts = new Map<vscode.TestItem, number>();
+        const retriedTests = new Set<vscode.TestItem>();
+
+        for (let attempt = 1; attempt <= retries && !token.isCancellationRequested; attempt++) {
+            const failed = Array.from(results)
+                .filter(([, result]) => result.outcome === 'failed' || result.outcome === 'errored')
+                .map(([test]) => test);
+            if (failed.length === 0) {
+                break;
+            }
+            failed.forEach(test => failedAttempts.set(test, (failedAttempts.get(test) || 0) + 1));
+
+            // Rerun the failures themselves, not the files or suites reporting them
+            const retried = failed.filter(test => !failed.some(other => other !== test && this.isWithin(other, test)));
+            retried.forEach(test => retriedTests.add(test));
+            this.outputChannel.appendLine(`[TestRun] Retry ${attempt}/${retries}: rerunning ${retried.length} failed test(s)`);
+            run.appendOutput(`\r\nRetry ${attempt}/${retries}: rerunning ${retried.length} failed test(s)\r\n`);
+
+            // The retry's failed tests lists replace those of the earlier attempts
+            this.discardFailedLists(options.runId);
+            retried.forEach(test => results.delete(test));
+            await this.runBatches(retried, run, token, options);
+
+            // A test the retry reported no result for (or skipped) did not pass: it is still failing
+            for (const test of retried) {
+                const outcome = results.get(test)?.outcome;
+                if (outcome !== 'passed' && outcome !== 'failed' && outcome !== 'errored') {
+                    run.failed(test, new vscode.TestMessage(`Retry ${attempt}/${retries}: ${NO_RESULT_MESSAGE}`));
+                }
+            }
+        }
+
+        if (failedAttempts.size === 0) {
+            return;
+        }
+
+        // Parents whose failures all passed on retry pass too (deepest first)
+        const depth = (test: vscode.TestItem): number => test.parent ? depth(test.parent) + 1 : 0;
+        const passedOnRetry: vscode.TestItem[] = [];
+        const stillFailing: vscode.TestItem[] = [];
+        for (const [test, attempts] of Array.from(failedAttempts).sort(([a], [b]) => depth(b) - depth(a))) {
+            const result = results.get(test);
+            const hasFailures = Array.from(results).some(([other, otherResult]) =>
+                this.isWithin(other, test) && other !== test && (otherResult.outcome === 'failed' || otherResult.outcome === 'errored')
+            );
+            if (!retriedTests.has(test) && result?.outcome !== 'passed' && !hasFailures) {
+                run.passed(test);
+            }
+
+            const finalResult = results.get(test);
+            if (finalResult?.outcome === 'passed') {
+                results.set(test, { ...finalResult, failedAttempts: attempts });
+                passedOnRetry.push(test);
+            } else {
+                stillFailing.push(test);
+            }
+        }
+
+        // The summary lists tests, not the files and suites containing them
+        const describe = (tests: vscode.TestItem[]) => tests
+            .filter(test => test.children.size === 0)
+            .map(test => `  ${test.id} (${failedAttempts.get(test)} failed attempt(s))`);
+        const passedLines = describe(passedOnRetry);
+        const failingLines = describe(stillFailing);
+        const summary = [
+            '',
+            `Passed on retry: ${passedLines.length}`,
+            ...passedLines,
+            `Failed after retries: ${failingLines.length}`,
+            ...failingLines,
+        ];
+        summary.forEach(line => this.outputChannel.appendLine(`[TestRun] ${line}`));
+        run.appendOutput(`${summary.join('\r\n')}\r\n`);
+    }
+
+    /**
+     * Check whether a test item is, or is inside, another
+     */
+    private isWithin(test: vscode.TestItem, ancestor: vscode.TestItem): boolean {
+        for (let current: vscode.TestItem | undefined = test; current; current = current.parent) {
+            if (current.id === ancestor.id) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * Drop the failed tests lists written so far by a run's processes (before a retry reruns their failures)
+     */
+    private discardFailedLists(runId: string): void {
+        const visitedRunDirs = new Set<string>();
+
+        for (const suiteId of this.suites.keys()) {
+            const runOutputDir = this.getOutputDir(suiteId, runId).hostDir;
+            if (visitedRunDirs.has(runOutputDir) || !fs.existsSync(runOutputDir)) {
+                continue;
+            }
+            visitedRunDirs.add(runOutputDir);
+
+            for (const failedList of glob.sync('*/failed', { cwd: runOutputDir, absolute: true })) {
+                fs.rmSync(failedList, { force: true });
+            }
+        }
+    }
+
+    /**
+     * Run the before-run hooks of a run: the global ones, then those of each suite in it
+     * Docker Compose services are resolved to their containers first, since hooks and builds run in them.
+     * A failing hook aborts the run: the error is attached to the suite items concerned and the selection is skipped.
+     * @returns Whether the run may go ahead
+     */
+    private async runBeforeHooks(
+        queue: vscode.TestItem[],
+        run: vscode.TestRun,
+        token: vscode.CancellationToken,
+        profile?: NamedRunProfile
+    ): Promise<boolean> {
+        const abort = (error: string, stageSuiteIds: string[]) => {
+            const message = new vscode.TestMessage(`Run aborted: ${error}`);
+            const erroredItems = stageSuiteIds
+                .map(suiteId => this.suites.get(suiteId)?.item)
+                .filter((item): item is vscode.TestItem => item !== undefined);
+            (erroredItems.length > 0 ? erroredItems : queue).forEach(item => run.errored(item, message));
+            queue.filter(test => !erroredItems.includes(test)).forEach(test => run.skipped(test));
+            run.appendOutput(`Run aborted: ${error}\r\n`);
+            return false;
+        };
+
+        // One test per workspace folder: each folder has its own Docker settings
+        const folderTests = new Map(queue.map(test => [this.getWorkspaceRoot(test.id), test.id]));
+        for (const testId of folderTests.values()) {
+            const error = await this.resolveDockerService(testId, run, token, profile);
+            if (error) {
+                return abort(error, []);
+            }
+        }
+
+        const suiteIds = this.getSuitesInRun(queue);
+        const actorBuilds = await this.planActorBuilds(suiteIds, profile);
+        const stages: Array<{ label: string; commands: HookCommand[]; suiteIds: string[] }> = [
+            { label: 'global', commands: this.getHookCommands('beforeRun', queue[0]?.id ?? '', undefined, profile), suiteIds },
+            ...actorBuilds,
+            ...suiteIds.map(suiteId => ({
+                label: this.getSuiteName(suiteId),
+                commands: this.getHookCommands('beforeRun', suiteId, suiteId, profile),
+                suiteIds: [suiteId],
+            })),
+        ];
+
+        for (const stage of stages) {
+            const error = await this.hookRunner.run('beforeRun', stage.label, stage.commands, run, token);
+            if (error) {
+                return abort(error, stage.suiteIds);
+            }
+        }
+
+        this.actorBuilds.markUpToDate(actorBuilds.flatMap(build => build.suiteIds));
+        return true;
+    }
+
+    /**
+     * Resolve the Docker Compose service of a test's workspace folder (codeceptionphp.docker.service) to its running container
+     * Compose recreates containers under new names, so the service is looked up through the Compose labels before every run.
+     * A stopped service can be started with `docker compose up -d <service>`, streamed into the test run.
+     * @returns Why the service has no container, or undefined when it is resolved (or not configured)
+     */
+    private async resolveDockerService(
+        testId: string,
+        run: vscode.TestRun,
+        token: vscode.CancellationToken,
+        profile?: NamedRunProfile
+    ): Promise<string | undefined> {
+        const config = this.getConfiguration(testId);
+        const service = config.get<string>('docker.service', '');
+        if (!service || this.getExecutionTarget(testId, profile) !== 'docker') {
+            return undefined;
+        }
+
+        const workspaceRoot = this.getWorkspaceRoot(testId);
+        const configuredFile = config.get<string>('docker.composeFile', '');
+        const composeFile = configuredFile
+            ? path.resolve(workspaceRoot, configuredFile)
+            : this.dockerService.findComposeFiles(workspaceRoot)[0];
+        if (!composeFile) {
+            return `No Docker Compose file found for service "${service}"`;
+        }
+
+        try {
+            let project = this.composeProjects.get(composeFile);
+            if (!project) {
+                project = (await this.dockerService.getComposeProject(composeFile)).name;
+                this.composeProjects.set(composeFile, project);
+            }
+
+            let container = await this.dockerService.findServiceContainer(project, service);
+            if (!container) {
+                const selection = await vscode.window.showWarningMessage(
+                    `The Docker Compose service "${service}" is not running. Start it with docker compose up -d ${service}?`,
+                    { modal: true },
+                    'Start'
+                );
+                if (selection !== 'Start') {
+                    return `Docker Compose service "${service}" is not running`;
+                }
+
+                const error = await this.hookRunner.run('beforeRun', 'docker compose', [{
+                    command: `docker compose up -d ${service}`,
+                    argv: this.dockerService.buildComposeUpCommand(composeFile, service),
+                    cwd: path.dirname(composeFile),
+                }], run, token);
+                if (error) {
+                    return error;
+                }
+
+                container = await this.dockerService.findServiceContainer(project, service);
+                if (!container) {
+                    return `Docker Compose service "${service}" has no running container after docker compose up`;
+                }
+            }
+
+            if (this.serviceContainers.get(workspaceRoot) !== container) {
+                this.outputChannel.appendLine(`[Docker] Service "${service}" (${project}) runs in container ${container}`);
+                this.serviceContainers.set(workspaceRoot, container);
+            }
+            return undefined;
+        } catch (error: any) {
+            const errorMessage = error?.message || String(error);
+            this.outputChannel.appendLine(`[Docker] ERROR resolving service "${service}": ${errorMessage}`);
+            return `Could not find the container of Docker Compose service "${service}": ${errorMessage}`;
+        }
+    }
+
+    /**
+     * Get the container Codeception runs in: the one resolved for codeceptionphp.docker.service, else codeceptionphp.docker.container
+     */
+    private getDockerContainer(testId?: string): string {
+        const config = this.getConfiguration(testId);
+        const resolved = config.get<string>('docker.service', '')
+            ? this.serviceContainers.get(this.getWorkspaceRoot(testId ?? ''))
+            : undefined;
+
+        return resolved || config.get<string>('docker.container', '');
+    }
+
+    /**
+     * Plan `codecept build` for the projects of suites whose generated actors are stale (codeceptionphp.build.staleActors)
+     * Asks first unless set to "auto"; a declined build isn't offered again until the actor's sources change.
+     * @param profile Named run profile whose target overrides the configured one
+     * @returns One build per project, with the stale suites it rebuilds
+     */
+    private async planActorBuilds(suiteIds: string[], profile?: NamedRunProfile): Promise<Array<{ label: string; commands: HookCommand[]; suiteIds: string[] }>> {
+        const getMode = (suiteId: string) => this.getConfiguration(suiteId).get<'prompt' | 'auto' | 'off'>('build.staleActors', 'prompt');
+        const stale = this.actorBuilds.findStale(suiteIds
+            .filter(suiteId => getMode(suiteId) !== 'off')
+            .map(suiteId => ({ suiteId, project: this.suites.get(suiteId)!.project, suite: this.suites.get(suiteId)!.suite })));
+
+        for (const [suiteId, reason] of stale) {
+            this.outputChannel.appendLine(`[Build] ${this.getSuiteName(suiteId)}: generated actor is stale (${reason})`);
+        }
+
+        const prompted = Array.from(stale.keys()).filter(suiteId => getMode(suiteId) === 'prompt');
+        if (prompted.length > 0) {
+            const selection = await vscode.window.showWarningMessage(
+                `The generated actor classes of ${prompted.map(suiteId => this.getSuiteName(suiteId)).join(', ')} are out of date. Run codecept build before the tests?`,
+                { modal: true },
+                'Build'
+            );
+            if (selection !== 'Build') {
+                this.actorBuilds.markUpToDate(prompted);
+                prompted.forEach(suiteId => stale.delete(suiteId));
+            }
+        }
+
+        // codecept build rebuilds every actor of a project at once
+        const buildsByProject = new Map<string, string[]>();
+        for (const suiteId of stale.keys()) {
+            const configPath = this.suites.get(suiteId)!.project.configPath;
+            buildsByProject.set(configPath, [...(buildsByProject.get(configPath) || []), suiteId]);
+        }
+
+        return Array.from(buildsByProject.values()).map(projectSuiteIds => ({
+            label: projectSuiteIds.map(suiteId => this.getSuiteName(suiteId)).join(', '),
+            commands: [this.getBuildCommand(projectSuiteIds[0], profile)],
+            suiteIds: projectSuiteIds,
+        }));
+    }
+
+    /**
+     * Build the `codecept build` command of a suite's project, run like the tests (locally or in Docker)
+     */
+    private getBuildCommand(suiteId: string, profile?: NamedRunProfile): HookCommand {
+        const config = this.getConfiguration(suiteId);
+        const workspaceRoot = this.getWorkspaceRoot(suiteId);
+        const binary = config.get<string>('binary.path', 'vendor/bin/codecept');
+        const project = this.getProjectForTest(suiteId);
+        const configArgs = project
+            ? ['-c', this.toPosixPath(path.relative(workspaceRoot, project.configPath))]
+            : [];
+        const command = [...splitCommandLine(binary), 'build', ...configArgs];
+
+        return { command: formatCommand(command), argv: this.wrapForRuntime(command, suiteId, {}, profile), cwd: workspaceRoot };
+    }
+
+    /**
+     * Run the on-failure hooks (when tests failed) and the after-run hooks of a run: those of each suite, then the global ones
+     * @param results Results the run reported so far
+     * @param profile Named run profile of the run (its target is where the hooks run)
+     */
+    private async runAfterHooks(
+        queue: vscode.TestItem[],
+        run: vscode.TestRun,
+        token: vscode.CancellationToken,
+        results: Map<vscode.TestItem, TestRunResult>,
+        profile?: NamedRunProfile
+    ): Promise<void> {
+        const failedTests = Array.from(results)
+            .filter(([, result]) => result.outcome === 'failed' || result.outcome === 'errored')
+            .map(([test]) => test);
+        const failedSuites = new Set(failedTests.map(test => test.id.split(':')[0]));
+
+        for (const stage of ['onFailure', 'afterRun'] as HookStage[]) {
+            for (const suiteId of this.getSuitesInRun(queue)) {
+                if (stage === 'onFailure' && !failedSuites.has(suiteId)) {
+                    continue;
+                }
+                await this.hookRunner.run(stage, this.getSuiteName(suiteId), this.getHookCommands(stage, suiteId, suiteId, profile), run, token);
+            }
+
+            if (stage === 'onFailure' && failedTests.length === 0) {
+                continue;
+            }
+            await this.hookRunner.run(stage, 'global', this.getHookCommands(stage, queue[0]?.id ?? '', undefined, profile), run, token);
+        }
+    }
+
+    /**
+     * Get the hook commands of a stage: the global ones, or those of a suite (codeceptionphp.hooks.suites, by suite name)
+     * Commands run from the workspace folder, or like the tests through docker exec or the command template.
+     * @param profile Named run profile whose target overrides the configured one
+     */
+    private getHookCommands(stage: HookStage, testId: string, suiteId?: string, profile?: NamedRunProfile): HookCommand[] {
+        const config = this.getConfiguration(testId);
+        const suiteHooks = config.get<Record<string, Partial<Record<HookStage, string[]>>>>('hooks.suites', {});
+        const commands = suiteId
+            ? (suiteHooks[suiteId] ?? suiteHooks[this.getSuiteName(suiteId)])?.[stage] || []
+            : config.get<string[]>(`hooks.${stage}`, []);
+        const runsLocally = this.getExecutionTarget(testId, profile) === 'local';
+
+        return commands
+            .filter(command => command && command.trim())
+            .map(command => ({
+                command,
+                // Hooks are shell commands: they run through sh -c, in the container or runtime unless tests run locally
+                argv: runsLocally ? this.getShellCommand(command) : this.wrapForRuntime(['sh', '-c', command], testId, {}, profile),
+                cwd: this.getWorkspaceRoot(testId),
+            }));
+    }
+
+    /**
+     * Get the argument vector running a command line through the local shell
+     */
+    private getShellCommand(command: string): string[] {
+        return process.platform === 'win32'
+            ? [process.env.ComSpec || 'cmd.exe', '/d', '/s', '/c', command]
+            : ['/bin/sh', '-c', command];
+    }
+
+    /**
+     * Get the IDs of the suites a run's tests belong to (project and root items contribute all of their suites)
+     */
+    private getSuitesInRun(tests: vscode.TestItem[]): string[] {
+        const suiteIds = new Set<string>();
+        const visit = (test: vscode.TestItem) => {
+            if (this.projects.has(test.id)) {
+                test.children.forEach(child => visit(child));
+                return;
+            }
+
+            const suiteId = test.id.split(':')[0];
+            if (this.suites.has(suiteId)) {
+                suiteIds.add(suiteId);
+            }
+        };
+        tests.forEach(visit);
+        return Array.from(suiteIds);
+    }
+
+    /**
+     * Wrap a test run to record the result it reports for each test (for the on-failure hooks and the run history)
+     * The last reported result wins, so XML corrections replace streamed results.
+     */
+    private trackResults(run: vscode.TestRun, results: Map<vscode.TestItem, TestRunResult>): vscode.TestRun {
+        return new Proxy(run, {
+            get: (target, property) => {
+                if (property === 'failed' || property === 'errored') {
+                    return (test: vscode.TestItem, message: vscode.TestMessage | readonly vscode.TestMessage[], duration?: number) => {
+                        results.set(test, { outcome: property, duration });
+                        target[property](test, message, duration);
+                    };
+                }
+                if (property === 'passed') {
+                    return (test: vscode.TestItem, duration?: number) => {
+                        results.set(test, { outcome: 'passed', duration });
+                        target.passed(test, duration);
+                    };
+                }
+                if (property === 'skipped') {
+                    return (test: vscode.TestItem) => {
+                        results.set(test, { outcome: 'skipped' });
+                        target.skipped(test);
+                    };
+                }
+
+                const value = Reflect.get(target, property);
+                return typeof value === 'function' ? value.bind(target) : value;
+            },
+        });
+    }
+
+    /**
+     * Store the results of a finished run in the run history (tests without children only)
+     */
+    private async recordRunHistory(queue: vscode.TestItem[], results: Map<vscode.TestItem, TestRunResult>, env?: string): Promise<void> {
+        const testResults = new Map<string, TestRunResult>();
+        for (const [test, result] of results) {
+            if (test.children.size === 0) {
+                testResults.set(test.id, result);
+            }
+        }
+
+        const testId = queue[0]?.id ?? '';
+        await this.runHistory.record(testResults, {
+            cwd: this.getWorkspaceRoot(testId),
+            env,
+            maxRuns: this.getConfiguration(testId).get<number>('history.maxRuns', 100),
+        });
+    }
+
+    /**
+     * Split the tests of a run into batches of files and methods per suite (in selection order)
+     * Suites, projects and roots are batches of their own, without a suite ID.
+     */
+    private groupTestsBySuite(tests: vscode.TestItem[]): Array<{ suiteId?: string; tests: vscode.TestItem[] }> {
+        const batches: Array<{ suiteId?: string; tests: vscode.TestItem[] }> = [];
+        const suiteBatches = new Map<string, { suiteId?: string; tests: vscode.TestItem[] }>();
+
+        for (const test of tests) {
+            if (!test.id.includes(':') || this.projects.has(test.id)) {
+                batches.push({ tests: [test] });
+                continue;
+            }
+
+            const suiteId = test.id.split(':')[0];
+            let batch = suiteBatches.get(suiteId);
+            if (!batch) {
+                batch = { suiteId, tests: [] };
+                suiteBatches.set(suiteId, batch);
+                batches.push(batch);
+            }
+            batch.tests.push(test);
+        }
+
+        return batches;
+    }
+
+    /**
+     * Run tests split over parallel workers (codeceptionphp.parallel.workers)
+     * The selection is expanded to suites or files, planned into shards, and every shard runs as its own
+     * Codeception process, each suite batch in its own output directory. All results are reported into the same TestRun.
+     * @returns The output locations of the shard runs (one per suite batch), e.g. to merge their coverage
+     */
+    private async runSharded(
+        queue: vscode.TestItem[],
+        run: vscode.TestRun,
+        token: vscode.CancellationToken,
+        options: { env?: string; coverage?: boolean; runId: string }
+    ): Promise<Array<{ suiteId: string; runDir: string }>> {
+        const config = this.getConfiguration(queue[0]?.id);
+        const workers = config.get<number>('parallel.workers', 1);
+        const shardBy = config.get<'suite' | 'file' | 'duration'>('parallel.shardBy', 'file');
+
+        // Units are whole suites, or files (selected methods stay with their file)
+        const units = new Map<string, { suiteId: string; tests: vscode.TestItem[] }>();
+        const addUnit = (test: vscode.TestItem) => {
+            if (!test.id.includes(':') || this.projects.has(test.id)) {
+                // Suites, projects and roots are split into their files
+                test.children.forEach(child => addUnit(child));
+                return;
+            }
+
+            const suiteId = test.id.split(':')[0];
+            const key = shardBy === 'suite' ? suiteId : test.id.split('::')[0];
+            const unit = units.get(key) || { suiteId, tests: [] };
+            unit.tests.push(test);
+            units.set(key, unit);
+        };
+        queue.forEach(test => addUnit(test));
+
+        const weightedUnits = Array.from(units.values()).map(unit => ({
+            unit,
+            weight: shardBy === 'duration' ? this.getTestsDuration(unit.tests) : this.countTests(unit.tests),
+        }));
+        const shards = this.shardPlanner.plan(weightedUnits, workers);
+        this.outputChannel.appendLine(`[TestRun] Running ${weightedUnits.length} ${shardBy === 'suite' ? 'suite(s)' : 'file(s)'} in ${shards.length} parallel shard(s)`);
+
+        // Every shard gets its own process, so cancelling must stop all of them
+        const executors = shards.map(() => new StreamingTestExecutor());
+        const cancellation = token.onCancellationRequested(() => executors.forEach(executor => executor.cancel()));
+        const outputs: Array<{ suiteId: string; runDir: string }> = [];
+
+        try {
+            await Promise.all(shards.map(async (shardUnits, index) => {
+                for (const batch of this.groupTestsBySuite(shardUnits.flatMap(unit => unit.tests))) {
+                    if (token.isCancellationRequested) {
+                        batch.tests.forEach(test => run.skipped(test));
+                        continue;
+                    }
+
+                    const runDir = this.createRunDir(options.runId);
+                    outputs.push({ suiteId: batch.suiteId!, runDir });
+                    await this.runTestBatch(batch.suiteId!, batch.tests, run, token, {
+                        env: options.env,
+                        runDir,
+                        executor: executors[index],
+                        coverage: options.coverage,
+                    });
+                }
+            }));
+        } finally {
+            cancellation.dispose();
+        }
+
+        return outputs;
+    }
+
+    /**
+     * Count the leaf tests (methods, datasets, scenarios) under test items
+     */
+    private countTests(tests: vscode.TestItem[]): number {
+        let count = 0;
+        const visit = (test: vscode.TestItem) => {
+            if (test.children.size === 0) {
+                count++;
+            }
+            test.children.forEach(child => visit(child));
+        };
+        tests.forEach(visit);
+        return count;
+    }
+
+    /**
+     * Estimate the duration of test items from earlier runs
+     * Tests without a recorded duration count as the average of the known ones (or 1 second).
+     */
+    private getTestsDuration(tests: vscode.TestItem[]): number {
+        const known = Array.from(this.testDurations.values());
+        const fallback = known.length > 0 ? known.reduce((sum, time) => sum + time, 0) / known.length : 1;
+
+        let duration = 0;
+        const visit = (test: vscode.TestItem) => {
+            const recorded = this.testDurations.get(test.id);
+            if (recorded !== undefined) {
+                duration += recorded;
+            } else if (test.children.size === 0) {
+                duration += fallback;
+            } else {
+                test.children.forEach(child => visit(child));
+            }
+        };
+        tests.forEach(visit);
+        return duration;
+    }
+
+    /**
+     * Run several files or methods of one suite in a single Codeception process
+     * The selection (plus @depends prerequisites) is written to a temporary group file and run with -g;
+     * results are mapped back through the streamed output and the JUnit report.
+     */
+    private async runTestBatch(
+        suiteId: string,
+        tests: vscode.TestItem[],
+        run: vscode.TestRun,
+        token: vscode.CancellationToken,
+        options: { env?: string; runDir?: string; executor?: StreamingTestExecutor; coverage?: boolean } = {}
+    ) {
+        const { env, runDir, executor, coverage } = options;
+        const suiteItem = this.suites.get(suiteId)?.item;
+        const selected: vscode.TestItem[] = [];
+
+        const select = (test: vscode.TestItem) => {
+            if (!selected.includes(test)) {
+                selected.push(test);
+                run.enqueued(test);
+            }
+        };
+
+        for (const test of tests) {
+            if (env && !this.runsInEnv(test, env)) {
+                run.skipped(test);
+                continue;
+            }
+            if (env) {
+                this.skipTestsOutsideEnv(test, env, run);
+            }
+
+            const methodId = test.id.includes('::') ? test.id.replace(/#[^:]*$/, '') : '';
+            if (methodId) {
+                const dependencyErrors = this.dependencyGraph.validate(methodId, id => this.findTestItem(id) !== undefined);
+                if (dependencyErrors.length > 0) {
+                    run.errored(test, new vscode.TestMessage(dependencyErrors.join('\n')));
+                    continue;
+                }
+
+                for (const prerequisiteId of this.dependencyGraph.getPrerequisites(methodId)) {
+                    const prerequisite = this.findTestItem(prerequisiteId);
+                    if (prerequisite && prerequisiteId.split(':')[0] === suiteId) {
+                        select(prerequisite);
+                    }
+                }
+            }
+
+            select(test);
+        }
+
+        if (!suiteItem || selected.length === 0) {
+            return;
+        }
+
+        let groupFile: string | undefined;
+        try {
+            groupFile = this.writeSelectionGroupFile(suiteId, selected, runDir);
+
+            const binary = this.getConfiguration(suiteId).get<string>('binary.path', 'vendor/bin/codecept');
+            const coverageFilePath = coverage ? path.join(this.getOutputDir(suiteId, runDir).hostDir, 'coverage.xml') : undefined;
+            const command = this.buildTestCommand(binary, suiteId, { env, groupFile, runDir, coverageFilePath });
+            run.appendOutput(`Running ${selected.length} tests: ${formatCommand(command)}\r\n`);
+
+            // Files get their state from their methods
+            selected.filter(test => test.children.size === 0).forEach(test => run.started(test));
+
+            await this.executeTestWithStreaming(suiteItem, run, command, token, {
+                env,
+                tests: selected,
+                markParent: false,
+                runDir,
+                executor,
+            });
+        } catch (error: any) {
+            const errorMessage = error?.message || String(error);
+            this.outputChannel.appendLine(`[TestRun] ERROR running batch for ${suiteId}: ${errorMessage}`);
+            selected.forEach(test => run.errored(test, new vscode.TestMessage(`Test execution failed: ${errorMessage}`)));
+        } finally {
+            if (groupFile) {
+                fs.rmSync(groupFile, { force: true });
+            }
+        }
+    }
+
+    /**
+     * Write a temporary Codeception group file listing tests of a suite (in the suite's output directory)
+     * @returns Path of the group file; the caller removes it after the run
+     */
+    private writeSelectionGroupFile(suiteId: string, tests: vscode.TestItem[], runDir?: string): string {
+        const entries = new Set(tests.map(test => this.getGroupFileEntry(test.id)));
+        const groupFile = path.join(this.getOutputDir(suiteId, runDir).hostDir, `${SELECTION_GROUP}-${Date.now()}.txt`);
+
+        fs.mkdirSync(path.dirname(groupFile), { recursive: true });
+        fs.writeFileSync(groupFile, `${Array.from(entries).join('\n')}\n`);
+
+        return groupFile;
+    }
+
+    /**
+     * Get the group file line of a test: its project-relative file, plus ":method" or ":Scenario name"
+     * Datasets and example rows run through their method or scenario.
+     */
+    private getGroupFileEntry(testId: string): string {
+        const [fileId, testName] = testId.split('::');
+        const file = fileId.substring(fileId.indexOf(':') + 1);
+        const filePath = this.getProjectRelativePath(testId, file);
+
+        if (testName === undefined) {
+            return filePath;
+        }
+
+        const name = file.endsWith('.feature') ? testName.replace(/#\d+$/, '') : testName.split('#')[0];
+        return `${filePath}:${name}`;
+    }
+
+    /**
+     * Run tests with coverage enabled, once per environment when environments are given
+     * Generates coverage files, parses them, and attaches to test run
+     */
+    private async runTestsWithCoverage(
+        request: vscode.TestRunRequest,
+        token: vscode.CancellationToken,
+        profile?: NamedRunProfile,
+        envs?: string[]
+    ) {
+        if (request.continuous) {
+            return this.continuousRuns.watch(request, token, true);
+        }
 
-        try {
-            for (const test of queue) {
+        if (envs && envs.length > 0) {
+            for (const env of envs) {
                 if (token.isCancellationRequested) {
-                    run.skipped(test);
-                    continue;
+                    break;
                 }
-
-                await this.runTest(test, run, token);
+                await this.runCoverageQueue(request, token, env, profile);
             }
-        } finally {
-            cancellationToken.dispose();
-            run.end();
+            return;
         }
+
+        await this.runCoverageQueue(request, token, undefined, profile);
     }
 
-    /**
-     * Run tests with coverage enabled
-     * Generates coverage files, parses them, and attaches to test run
-     */
-    private async runTestsWithCoverage(request: vscode.TestRunRequest, token: vscode.CancellationToken) {
-        const run = this.testController.createTestRun(request);
+    private async runCoverageQueue(
+        request: vscode.TestRunRequest,
+        token: vscode.CancellationToken,
+        env?: string,
+        profile?: NamedRunProfile
+    ) {
+        const results = new Map<vscode.TestItem, TestRunResult>();
+        const runName = [profile?.name, env].filter(Boolean).join(', ');
+        const run = this.trackResults(this.testController.createTestRun(
+            request,
+            runName ? `Codeception (${runName})` : undefined
+        ), results);
         const queue: vscode.TestItem[] = [];
-        let coverageFilePath: string | null = null;
 
         // Collect tests to run
         if (request.include) {
@@ -427,40 +1819,45 @@ export class CodeceptionTestProvider {
         });
 
         // Check if Docker is enabled (declare once for entire method)
-        const config = vscode.workspace.getConfiguration('codeceptionphp');
-        const useDocker = config.get<boolean>('docker.enabled', false);
-        const dockerWorkdir = useDocker ? config.get<string>('docker.workdir', '') : undefined;
+        // Coverage is collected for the workspace folder of the first selected test
+        const coverageTestId = queue[0]?.id ?? '';
+        const workspaceRoot = this.getWorkspaceRoot(coverageTestId);
+        const config = this.getConfiguration(coverageTestId);
+        const runtimeWorkdir = this.getRuntimeWorkdir(coverageTestId, profile);
+
+        const runId = this.coverageManager.createRunId();
+        if (profile) {
+            this.runProfiles.set(runId, profile);
+        }
+        let hooksPassed = false;
+
+        // Rerunning failures would replace the coverage of their first attempt
+        if (this.getRetryCount(request, coverageTestId, profile) > 0) {
+            this.outputChannel.appendLine('[TestRun] Failed tests are not retried in coverage runs');
+        }
 
         try {
-            // Determine suite name for coverage file naming (if running a single suite)
-            let suiteName: string | undefined;
-            if (queue.length === 1 && queue[0].children.size > 0) {
-                suiteName = queue[0].id;
+            hooksPassed = await this.runBeforeHooks(queue, run, token, profile);
+            if (!hooksPassed) {
+                return;
             }
 
-            // Generate unique coverage file path (container path if Docker, host path otherwise)
-            coverageFilePath = this.coverageManager.generateCoverageFilePath(
-                this.workspaceRoot,
-                suiteName,
-                dockerWorkdir
-            );
-
-            // Run tests with coverage
-            // IMPORTANT: Run all tests in a SINGLE command to get cumulative coverage
-            // Running tests one-by-one causes each test to overwrite the coverage.xml file
+            // Every Codeception process writes coverage.xml to its own output directory; they are merged afterwards
+            let coverageOutputs: Array<{ testId: string; runDir: string }> = [];
 
-            if (queue.length === 1) {
+            const workers = config.get<number>('parallel.workers', 1);
+            if (workers > 1 && (queue.length > 1 || queue[0]?.children.size > 1)) {
+                // Parallel shards run their suite batches in separate processes
+                const shardOutputs = await this.runSharded(queue, run, token, { env, coverage: true, runId });
+                coverageOutputs = shardOutputs.map(({ suiteId, runDir }) => ({ testId: suiteId, runDir }));
+            } else if (queue.length === 1) {
                 // Single test - run directly
                 const test = queue[0];
-                await this.runTestWithCoverage(test, run, coverageFilePath, token);
+                const runDir = this.createRunDir(runId);
+                coverageOutputs.push({ testId: test.id, runDir });
+                await this.runTestWithCoverage(test, run, runDir, token, env);
             } else {
-                // Multiple tests - run as a batch to get cumulative coverage
-
-                // Build a single command that runs all tests
-                const config = vscode.workspace.getConfiguration('codeceptionphp');
-                const binary = config.get<string>('binary.path', 'vendor/bin/codecept');
-
-                // Group tests by suite to build efficient commands
+                // Multiple tests - one command per suite
                 const testsBySuite = new Map<string, vscode.TestItem[]>();
                 for (const test of queue) {
                     const suiteId = test.id.split(':')[0];
@@ -478,108 +1875,69 @@ export class CodeceptionTestProvider {
                     }
 
                     // For suite-level runs, just run the whole suite
-                    const command = this.buildTestCommand(binary, suiteId, coverageFilePath);
+                    // A selection of files/methods runs through a group file in the same process
+                    const suiteItem = this.suites.get(suiteId)?.item;
+                    const isSelection = suiteItem !== undefined && tests.every(t => t.id.includes(':'));
+                    const runDir = this.createRunDir(runId);
+                    const groupFile = isSelection ? this.writeSelectionGroupFile(suiteId, tests, runDir) : undefined;
+                    const binary = this.getConfiguration(suiteId).get<string>('binary.path', 'vendor/bin/codecept');
+                    const coverageFilePath = path.join(this.getOutputDir(suiteId, runDir).hostDir, 'coverage.xml');
+                    const command = this.buildTestCommand(binary, suiteId, { coverageFilePath, env, groupFile, runDir });
+                    coverageOutputs.push({ testId: suiteId, runDir });
 
                     // Mark all tests as started
                     tests.forEach(t => run.started(t));
 
-                    // Execute the suite
-                    await this.executeTestWithStreaming(tests[0], run, command, token);
-                }
-            }
-
-            // Parse and attach coverage
-            // Codeception outputs coverage to tests/_output/coverage.xml by default
-            const defaultCoveragePath = path.join(this.workspaceRoot, 'tests', '_output', 'coverage.xml');
-
-            // Wait a moment for file to be written (increase wait time for Docker)
-            const waitTime = useDocker ? 1000 : 500;
-            await new Promise(resolve => setTimeout(resolve, waitTime));
-
-            // Also check for coverage files in Docker if applicable
-            let coveragePath = defaultCoveragePath;
-            if (useDocker && dockerWorkdir) {
-                // In Docker, coverage might be generated in container path
-                // Try to find coverage.xml in the output directory
-                const outputDir = path.join(this.workspaceRoot, 'tests', '_output');
-                if (fs.existsSync(outputDir)) {
-                    const files = fs.readdirSync(outputDir);
-                    const coverageFiles = files.filter(f => f.includes('coverage') && f.endsWith('.xml'));
-                    if (coverageFiles.length > 0) {
-                        coveragePath = path.join(outputDir, coverageFiles[0]);
+                    try {
+                        if (isSelection) {
+                            await this.executeTestWithStreaming(suiteItem, run, command, token, { env, tests, markParent: false, runDir });
+                        } else {
+                            // Execute the suite
+                            await this.executeTestWithStreaming(tests[0], run, command, token, { env, runDir });
+                        }
+                    } finally {
+                        if (groupFile) {
+                            fs.rmSync(groupFile, { force: true });
+                        }
                     }
                 }
             }
 
-            if (fs.existsSync(coveragePath)) {
-                // Validate file size
-                const stats = fs.statSync(coveragePath);
-
-                if (stats.size === 0) {
-                    this.outputChannel.appendLine('WARNING: Coverage file is empty');
-                } else {
-                    // Get Docker config for reading coverage file
-                    const dockerConfig = this.getDockerConfig();
-                    const containerCoveragePath = dockerConfig && dockerWorkdir
-                        ? `${dockerWorkdir}/tests/_output/coverage.xml`
-                        : undefined;
-
-                    const coverageData = await this.coverageParser.parseCloverXml(
-                        coveragePath,
-                        containerCoveragePath,
-                        dockerConfig?.container
-                    );
+            // Parse and merge the coverage of every process of the run
+            // Files are complete once the processes have exited, and only this run writes to its directories
+            const coverageMaps: Array<Map<string, FileCoverageData>> = [];
+            for (const { testId, runDir } of coverageOutputs) {
+                const outputDirs = this.getOutputDir(testId, runDir);
+                const coveragePath = path.join(outputDirs.hostDir, 'coverage.xml');
+                if (!fs.existsSync(coveragePath) || fs.statSync(coveragePath).size === 0) {
+                    continue;
+                }
 
-                    if (coverageData.size === 0) {
-                        this.outputChannel.appendLine('WARNING: No coverage data found in XML file');
-                        this.outputChannel.appendLine('This may indicate:');
-                        this.outputChannel.appendLine('  1. No source files were executed');
-                        this.outputChannel.appendLine('  2. Coverage paths are not configured in codeception.yml');
-                        this.outputChannel.appendLine('  3. Xdebug coverage mode is not enabled');
-                    } else {
-                        const fileCoverages = this.coverageParser.convertToVSCodeCoverage(
-                            coverageData,
-                            this.workspaceRoot,
-                            dockerWorkdir
-                        );
-
-                        // Attach coverage to test run
-                        let attachedCount = 0;
-                        for (const fileCoverage of fileCoverages) {
-                            try {
-                                run.addCoverage(fileCoverage);
-                                attachedCount++;
-                            } catch (error: any) {
-                                this.outputChannel.appendLine(`ERROR attaching coverage for ${fileCoverage.uri.fsPath}: ${error.message}`);
-                            }
-                        }
+                const dockerConfig = this.getDockerConfig(testId, profile);
+                coverageMaps.push(await this.coverageParser.parseCloverXml(
+                    coveragePath,
+                    dockerConfig && outputDirs.containerDir ? `${outputDirs.containerDir}/coverage.xml` : undefined,
+                    dockerConfig?.container
+                ));
+            }
 
-                        // Log summary
-                        const summary = this.coverageParser.calculateSummary(coverageData);
-                        this.outputChannel.appendLine(
-                            `Coverage: ${summary.coveredLines}/${summary.totalLines} lines (${summary.percentage}%)`
-                        );
-
-                        // Show success notification
-                        if (attachedCount > 0) {
-                            vscode.window.showInformationMessage(
-                                `Coverage collected: ${summary.percentage}% (${summary.coveredLines}/${summary.totalLines} lines)`,
-                                'View Coverage'
-                            ).then(selection => {
-                                if (selection === 'View Coverage') {
-                                    // Focus on test coverage view
-                                    vscode.commands.executeCommand('testing.showCoverage');
-                                }
-                            });
-                        }
-                    }
-                }
-            } else {
+            if (coverageMaps.length === 0) {
                 this.outputChannel.appendLine('WARNING: Coverage file not generated');
                 this.outputChannel.appendLine('Coverage requires:');
                 this.outputChannel.appendLine('  1. Xdebug installed and enabled (xdebug.mode=coverage)');
                 this.outputChannel.appendLine('  2. Coverage enabled in codeception.yml');
                 this.outputChannel.appendLine('  3. Include paths configured in codeception.yml');
+            } else {
+                const coverageData = this.coverageParser.mergeCoverage(coverageMaps);
+                if (coverageData.size === 0) {
+                    this.outputChannel.appendLine('WARNING: No coverage data found in XML file');
+                    this.outputChannel.appendLine('This may indicate:');
+                    this.outputChannel.appendLine('  1. No source files were executed');
+                    this.outputChannel.appendLine('  2. Coverage paths are not configured in codeception.yml');
+                    this.outputChannel.appendLine('  3. Xdebug coverage mode is not enabled');
+                } else {
+                    this.attachCoverage(run, queue, coverageData, workspaceRoot, runtimeWorkdir);
+                }
             }
 
         } catch (error: any) {
@@ -596,11 +1954,66 @@ export class CodeceptionTestProvider {
                 }
             });
         } finally {
-            // NOTE: We do NOT cleanup coverage.xml - it's a generated artifact that should persist
-            // Codeception will overwrite it on the next coverage run automatically
-            // This allows users to inspect the coverage file and enables proper coverage display
+            if (hooksPassed) {
+                await this.runAfterHooks(queue, run, token, results, profile);
+            }
+            // Coverage has been attached to the run; its output directories are no longer needed
             cancellationToken.dispose();
             run.end();
+            await this.recordRunHistory(queue, results, env);
+            await this.finishRun(runId);
+            this.runProfiles.delete(runId);
+            await this.refreshFailedTests(profile);
+        }
+    }
+
+    /**
+     * Attach parsed coverage to a test run, then log and announce the summary
+     * The covered files are remembered so continuous runs can rerun the tests when they change.
+     */
+    private attachCoverage(
+        run: vscode.TestRun,
+        tests: vscode.TestItem[],
+        coverageData: Map<string, FileCoverageData>,
+        workspaceRoot: string,
+        runtimeWorkdir?: string
+    ): void {
+        const fileCoverages = this.coverageParser.convertToVSCodeCoverage(
+            coverageData,
+            workspaceRoot,
+            runtimeWorkdir
+        );
+
+        // Attach coverage to test run
+        let attachedCount = 0;
+        for (const fileCoverage of fileCoverages) {
+            try {
+                run.addCoverage(fileCoverage);
+                attachedCount++;
+            } catch (error: any) {
+                this.outputChannel.appendLine(`ERROR attaching coverage for ${fileCoverage.uri.fsPath}: ${error.message}`);
+            }
+        }
+
+        this.continuousRuns.recordCoverage(tests, fileCoverages.map(fileCoverage => fileCoverage.uri.fsPath));
+
+        // Log summary
+        const summary = this.coverageParser.calculateSummary(coverageData);
+        this.outputChannel.appendLine(
+            `Coverage: ${summary.coveredLines}/${summary.totalLines} lines (${summary.percentage}%)`
+        );
+
+        // Show success notification
+        if (attachedCount > 0) {
+            vscode.window.showInformationMessage(
+                `Coverage collected: ${summary.percentage}% (${summary.coveredLines}/${summary.totalLines} lines)`,
+                'View Coverage'
+            ).then(selection => {
+                if (selection === 'View Coverage') {
+                    // Focus on test coverage view
+                    vscode.commands.executeCommand('testing.showCoverage');
+                }
+            });
         }
     }
 
@@ -610,22 +2023,55 @@ export class CodeceptionTestProvider {
     private async executeTestWithStreaming(
         test: vscode.TestItem,
         run: vscode.TestRun,
-        command: string,
-        token: vscode.CancellationToken
+        command: string[],
+        token: vscode.CancellationToken,
+        options: {
+            env?: string;
+            tests?: vscode.TestItem[];
+            markParent?: boolean;
+            runDir?: string;
+            executor?: StreamingTestExecutor;
+            processEnv?: Record<string, string>;
+            timeout?: number;
+        } = {}
     ): Promise<void> {
-        // Track which tests have been seen in output
-        const seenTests = new Set<string>();
-        const testResults = new Map<string, { passed: boolean; output: string }>();
+        // Results are reported for `tests` (default: the children of `test`), and for `test` itself unless markParent is false
+        // Parallel shards pass their own executor; reports are read from the run's output directory
+        const {
+            env,
+            tests,
+            markParent = true,
+            runDir,
+            executor = this.streamingExecutor,
+            processEnv,
+            timeout = 300000, // 5 minute timeout
+        } = options;
+        const reportFailure = (message: vscode.TestMessage) => {
+            if (markParent) {
+                run.failed(test, message);
+            } else {
+                (tests || []).forEach(selected => run.failed(selected, message));
+            }
+        };
+        // Track which tests have a result, from the output, the event stream or the XML report
+        const seenTests = new Set<vscode.TestItem>();
+        const testResults = new Map<vscode.TestItem, { passed: boolean; output: string }>();
         let allOutput = '';
         let hasFatalError = false;
+        // Tests with results from the structured event stream (not corrected from the XML report)
+        const reportedTests = new Set<vscode.TestItem>();
 
         // Build a map of test names to test items for quick lookup
-        const testNameMap = this.buildTestNameMap(test);
+        const testNameMap = this.buildTestNameMap(test, env, tests);
+        const profile = this.getRunProfile(runDir);
 
         try {
-            await this.streamingExecutor.executeWithStreaming(command, {
-                cwd: this.workspaceRoot,
-                timeout: 300000, // 5 minute timeout
+            // Environment variables of a named run profile also apply to local runs
+            const profileEnv = profile?.envVars;
+            await executor.executeWithStreaming(command, {
+                cwd: this.getWorkspaceRoot(test.id),
+                env: profileEnv || processEnv ? { ...profileEnv, ...processEnv } : undefined,
+                timeout,
                 onOutput: (data: string) => {
                     // Append to output pane
                     allOutput += data;
@@ -639,17 +2085,17 @@ export class CodeceptionTestProvider {
                     const testItem = testNameMap.get(testName);
                     if (testItem) {
                         // Only mark if we haven't seen this test yet
-                        if (!seenTests.has(testName)) {
+                        if (!seenTests.has(testItem)) {
                             run.started(testItem);
-                            seenTests.add(testName);
-                            testResults.set(testName, { passed, output: output || '' });
+                            seenTests.add(testItem);
+                            testResults.set(testItem, { passed, output: output || '' });
 
                             if (passed) {
                                 run.passed(testItem);
                             } else {
                                 const message = output
                                     ? new vscode.TestMessage(output)
-                                    : this.createErrorMessage(allOutput, '', testItem);
+                                    : this.createErrorMessage(allOutput, '', testItem, undefined, profile);
                                 run.failed(testItem, message);
                             }
                         }
@@ -659,12 +2105,28 @@ export class CodeceptionTestProvider {
                         // this.outputChannel.appendLine(`[Streaming] Test result for unknown test: ${testName}`);
                     }
                 },
+                onTestEvent: (event: TestResultEvent) => {
+                    const testItem = this.findEventTestItem(event, testNameMap, test.id, profile);
+                    if (!testItem) {
+                        return;
+                    }
+
+                    if (event.event !== 'started') {
+                        seenTests.add(testItem);
+                        testResults.set(testItem, {
+                            passed: event.event !== 'failed' && event.event !== 'errored',
+                            output: event.message || '',
+                        });
+                        reportedTests.add(testItem);
+                    }
+                    this.reportTestEvent(run, testItem, event);
+                },
                 onComplete: async (exitCode: number) => {
-                    // Mark any tests that weren't seen as passed (Codeception only reports failures)
-                    this.markUnseenTests(test, run, seenTests, testNameMap);
+                    // Reconcile with XML results for accuracy (XML is source of truth for tests without structured events)
+                    await this.reconcileWithXmlResults(test, run, seenTests, testNameMap, testResults, runDir, reportedTests);
 
-                    // Reconcile with XML results for accuracy (XML is source of truth)
-                    await this.reconcileWithXmlResults(test, run, seenTests, testNameMap, testResults);
+                    // Tests still without a result did not run
+                    this.markUnseenTests(run, seenTests, testNameMap);
 
                     // Check for fatal errors
                     hasFatalError = this.detectFatalError(allOutput, '');
@@ -673,8 +2135,11 @@ export class CodeceptionTestProvider {
                     const hasFailures = exitCode !== 0 || hasFatalError ||
                         Array.from(testResults.values()).some(r => !r.passed);
 
+                    if (!markParent) {
+                        return;
+                    }
                     if (hasFailures) {
-                        const message = this.createErrorMessage(allOutput, '', test);
+                        const message = this.createErrorMessage(allOutput, '', test, undefined, profile);
                         run.failed(test, message);
                     } else {
                         run.passed(test);
@@ -682,7 +2147,7 @@ export class CodeceptionTestProvider {
                 },
                 onError: (error: Error) => {
                     const message = new vscode.TestMessage(`Test execution failed: ${error.message}`);
-                    run.failed(test, message);
+                    reportFailure(message);
                 },
             });
         } catch (error: any) {
@@ -704,14 +2169,14 @@ export class CodeceptionTestProvider {
                     if (selection === 'View Output') {
                         this.outputChannel.show();
                     } else if (selection === 'Disable Docker') {
-                        const config = vscode.workspace.getConfiguration('codeceptionphp');
+                        const config = this.getConfiguration(test.id);
                         await config.update('docker.enabled', false, vscode.ConfigurationTarget.Workspace);
                         vscode.window.showInformationMessage('Docker support disabled. Tests will run locally.');
                     }
                 });
 
                 const message = new vscode.TestMessage(`Docker execution failed: ${dockerErrorMsg}`);
-                run.failed(test, message);
+                reportFailure(message);
                 return;
             }
 
@@ -719,38 +2184,185 @@ export class CodeceptionTestProvider {
             if (token.isCancellationRequested) {
                 run.appendOutput('\r\nTest run cancelled by user\r\n');
                 // Mark remaining tests as skipped
-                this.markUnseenTests(test, run, seenTests, testNameMap);
+                this.markUnseenTests(run, seenTests, testNameMap);
                 return;
             }
 
             // Other errors
             const message = new vscode.TestMessage(`Test execution failed: ${errorMessage}`);
-            run.failed(test, message);
+            reportFailure(message);
+        }
+    }
+
+    /**
+     * Find the test item a structured event refers to
+     * Event names have the format of Codeception's failed tests list ("path/FileTest.php:testName with data set #0")
+     * @param testId The test the run was started for (to resolve reported paths)
+     * @param profile Named run profile of the run
+     */
+    private findEventTestItem(
+        event: TestResultEvent,
+        testNameMap: Map<string, vscode.TestItem>,
+        testId: string,
+        profile?: NamedRunProfile
+    ): vscode.TestItem | undefined {
+        const entry = this.failedTestsParser.parseEntry(event.test);
+        if (!entry.test) {
+            return undefined;
+        }
+
+        const file = this.getReportedFilePath(testId, entry.file, profile);
+        const names = entry.dataSet !== undefined
+            ? [`${entry.test}#${entry.dataSet}`, `${entry.test} | ${entry.dataSet}`, entry.test]
+            : [entry.test];
+
+        for (const name of names) {
+            const testItem = testNameMap.get(`${file}:${name}`) ?? testNameMap.get(`${file}:${name.toLowerCase()}`);
+            if (testItem) {
+                return testItem;
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Get the project-relative path of a file reported by Codeception (relative, or absolute where it runs)
+     */
+    private getReportedFilePath(testId: string, file: string, profile?: NamedRunProfile): string {
+        const hostFile = this.toHostPath(testId, file, profile);
+        if (!path.isAbsolute(hostFile)) {
+            return this.toPosixPath(hostFile);
+        }
+
+        const project = this.getProjectForTest(testId);
+        return this.toPosixPath(path.relative(project?.rootDir ?? this.getWorkspaceRoot(testId), hostFile));
+    }
+
+    /**
+     * Apply a structured event to its test item
+     */
+    private reportTestEvent(run: vscode.TestRun, testItem: vscode.TestItem, event: TestResultEvent): void {
+        const duration = event.duration !== undefined ? event.duration * 1000 : undefined;
+        if (event.duration !== undefined) {
+            this.testDurations.set(testItem.id, event.duration);
         }
+
+        switch (event.event) {
+            case 'started':
+                run.started(testItem);
+                break;
+            case 'passed':
+                run.passed(testItem, duration);
+                break;
+            case 'skipped':
+            case 'incomplete':
+                run.skipped(testItem);
+                break;
+            case 'failed':
+            case 'errored': {
+                const text = event.trace ? `${event.message || ''}\n\n${event.trace}` : event.message || 'Test failed';
+                const message = event.expected !== undefined && event.actual !== undefined
+                    ? vscode.TestMessage.diff(text, event.expected, event.actual)
+                    : new vscode.TestMessage(text);
+
+                // The reported line is in the test file (inherited methods point to another file)
+                if (event.line && testItem.uri && (!event.file || path.basename(event.file) === path.basename(testItem.uri.fsPath))) {
+                    message.location = new vscode.Location(testItem.uri, new vscode.Position(event.line - 1, 0));
+                }
+                run.failed(testItem, message, duration);
+
+                // A data provider method fails when any of its datasets failed
+                if (testItem.parent?.id.includes('::')) {
+                    run.failed(testItem.parent, new vscode.TestMessage(`Dataset ${testItem.label} failed`));
+                }
+                break;
+            }
+        }
+    }
+
+    /**
+     * Remove the structured event lines from buffered stderr output
+     */
+    private stripResultEvents(output: string): string {
+        return output
+            .split('\n')
+            .filter(line => !line.includes(RESULT_EVENT_MARKER))
+            .join('\n');
+    }
+
+    /**
+     * Copy the adapter's Codeception extension into the project's output directory
+     * The output directory is inside the project, so the file is also reachable from a Docker container.
+     * @returns Its path relative to the directory commands run from, or undefined when it can't be installed
+     */
+    private installReporter(testId: string): string | undefined {
+        const reporterPath = path.join(this.getOutputDir(testId).hostDir, `${REPORTER_CLASS}.php`);
+
+        try {
+            const source = fs.readFileSync(REPORTER_SOURCE, 'utf-8');
+            if (!fs.existsSync(reporterPath) || fs.readFileSync(reporterPath, 'utf-8') !== source) {
+                fs.mkdirSync(path.dirname(reporterPath), { recursive: true });
+                fs.writeFileSync(reporterPath, source);
+            }
+        } catch (error: any) {
+            const errorMessage = error?.message || String(error);
+            this.outputChannel.appendLine(`[TestRun] WARNING: Structured results unavailable: ${errorMessage}`);
+            return undefined;
+        }
+
+        return this.toPosixPath(path.relative(this.getWorkspaceRoot(testId), reporterPath));
     }
 
     /**
-     * Build a map of test method names to test items for quick lookup
+     * Build a map of test names to test items for quick lookup
+     * Names are keyed by project-relative file ("path/FileTest.php:testName"), as Codeception reports them;
+     * bare names are only added when a single file of the run has them, for output that doesn't include the file.
      * Supports multiple name formats for matching
      */
-    private buildTestNameMap(parentTest: vscode.TestItem): Map<string, vscode.TestItem> {
+    private buildTestNameMap(parentTest: vscode.TestItem, env?: string, tests?: vscode.TestItem[]): Map<string, vscode.TestItem> {
         const map = new Map<string, vscode.TestItem>();
+        const ambiguousNames = new Set<string>();
+
+        const addName = (file: string, name: string, test: vscode.TestItem) => {
+            for (const variation of [name, name.toLowerCase()]) {
+                map.set(`${file}:${variation}`, test);
+
+                // Methods of the same name in several files can't be told apart by name
+                const existing = map.get(variation);
+                if (ambiguousNames.has(variation) || (existing && existing !== test)) {
+                    ambiguousNames.add(variation);
+                    map.delete(variation);
+                } else {
+                    map.set(variation, test);
+                }
+            }
+        };
 
         const addTest = (test: vscode.TestItem) => {
-            // Extract method name from test ID (format: "suite:file::methodName")
+            // Tests restricted to other environments are not run (or reported) by Codeception
+            if (env && !this.runsInEnv(test, env)) {
+                return;
+            }
+
+            // Extract file and method name from test ID (format: "suite:file::methodName")
             const testId = test.id;
             if (testId.includes('::')) {
-                const methodName = testId.split('::').pop() || '';
+                const [fileId, methodName] = testId.split('::');
+                const file = this.getProjectRelativePath(testId, fileId.substring(fileId.indexOf(':') + 1));
                 if (methodName) {
                     // Add multiple variations for matching
-                    map.set(methodName, test);
-                    map.set(methodName.toLowerCase(), test);
-
-                    // Handle test prefix removal (testMethodName -> methodName)
-                    if (methodName.toLowerCase().startsWith('test')) {
-                        const withoutTest = methodName.substring(4);
-                        map.set(withoutTest, test);
-                        map.set(withoutTest.toLowerCase(), test);
+                    addName(file, methodName, test);
+
+                    // Gherkin example rows are reported as "Outline title | a | b |"
+                    if (test.uri?.fsPath.endsWith('.feature') && /#\d+$/.test(methodName) && test.parent) {
+                        addName(file, `${test.parent.label} ${test.label}`, test);
+                    }
+
+                    // Cest examples are also reported as "methodName | "value" | "value""
+                    const dataSetMatch = methodName.match(/^(\w+)#\d+$/);
+                    if (dataSetMatch && !test.uri?.fsPath.endsWith('.feature') && !test.label.startsWith('#')) {
+                        addName(file, `${dataSetMatch[1]} | ${test.label}`, test);
                     }
                 }
             }
@@ -759,28 +2371,28 @@ export class CodeceptionTestProvider {
             test.children.forEach(child => addTest(child));
         };
 
-        parentTest.children.forEach(child => addTest(child));
+        if (tests) {
+            // An explicit selection, e.g. a test with its @depends prerequisites or a batch
+            tests.forEach(selected => addTest(selected));
+        } else {
+            parentTest.children.forEach(child => addTest(child));
+        }
         return map;
     }
 
     /**
-     * Mark tests that weren't seen in output as passed
-     * Note: Codeception only prints detailed info for failing tests
-     * Tests not explicitly mentioned in output are assumed to have passed
-     * This matches the behavior of parseAndMarkChildren()
+     * Mark the tests without a result in the output, the event stream or the XML report as skipped
+     * Codeception did not run them: its filter did not match them, or the run stopped before them.
+     * Tests with children (data provider methods, outlines) take the state of their children.
      */
     private markUnseenTests(
-        parentTest: vscode.TestItem,
         run: vscode.TestRun,
-        seenTests: Set<string>,
+        seenTests: Set<vscode.TestItem>,
         testNameMap: Map<string, vscode.TestItem>
     ): void {
-        testNameMap.forEach((testItem, testName) => {
-            if (!seenTests.has(testName)) {
-                // Test wasn't mentioned in output - assume it passed
-                // Codeception only prints detailed info for failures
-                run.started(testItem);
-                run.passed(testItem);
+        new Set(testNameMap.values()).forEach(testItem => {
+            if (testItem.children.size === 0 && !seenTests.has(testItem)) {
+                run.skipped(testItem);
             }
         });
     }
@@ -793,13 +2405,12 @@ export class CodeceptionTestProvider {
         test: vscode.TestItem,
         run: vscode.TestRun,
         stdout: string,
-        stderr: string
+        stderr: string,
+        runDir?: string
     ): Promise<boolean> {
         try {
-            const xmlPath = JunitParser.getDefaultXmlPath(this.workspaceRoot);
-
-            // Wait for file to be written
-            await new Promise(resolve => setTimeout(resolve, 300));
+            const outputDirs = this.getOutputDir(test.id, runDir);
+            const xmlPath = JunitParser.getDefaultXmlPath(outputDirs.hostDir);
 
             if (!fs.existsSync(xmlPath)) {
                 this.outputChannel.appendLine('[XML Parse] XML file not found, falling back to regex');
@@ -807,9 +2418,9 @@ export class CodeceptionTestProvider {
             }
 
             // Get Docker config for reading XML file
-            const dockerConfig = this.getDockerConfig();
-            const containerXmlPath = dockerConfig?.workdir
-                ? `${dockerConfig.workdir}/tests/_output/report.xml`
+            const dockerConfig = this.getDockerConfig(test.id, this.getRunProfile(runDir));
+            const containerXmlPath = outputDirs.containerDir
+                ? `${outputDirs.containerDir}/report.xml`
                 : undefined;
 
             const xmlResults = await this.junitParser.parseJUnitXml(
@@ -823,9 +2434,11 @@ export class CodeceptionTestProvider {
                 return false;
             }
 
-            // Extract test method name from test ID
+            // Extract test method name from test ID (the report only holds the test's file)
             const methodName = this.extractMethodName(test.id);
-            const xmlResult = xmlResults.get(methodName);
+            const xmlResult = Array.from(xmlResults.values()).find(result =>
+                result.name === methodName || JunitParser.getDataSetTestName(result.name) === methodName
+            );
 
             if (!xmlResult) {
                 this.outputChannel.appendLine(`[XML Parse] Test ${methodName} not found in XML, falling back to regex`);
@@ -866,16 +2479,16 @@ export class CodeceptionTestProvider {
     private async reconcileWithXmlResults(
         test: vscode.TestItem,
         run: vscode.TestRun,
-        seenTests: Set<string>,
+        seenTests: Set<vscode.TestItem>,
         testNameMap: Map<string, vscode.TestItem>,
-        testResults: Map<string, { passed: boolean; output: string }>
+        testResults: Map<vscode.TestItem, { passed: boolean; output: string }>,
+        runDir?: string,
+        reportedTests?: Set<vscode.TestItem>
     ): Promise<void> {
         try {
-            // Get the default XML output path
-            const xmlPath = JunitParser.getDefaultXmlPath(this.workspaceRoot);
-
-            // Wait a moment for file to be written
-            await new Promise(resolve => setTimeout(resolve, 300));
+            // The report is complete once the process has exited; the run's own directory holds only its report
+            const outputDirs = this.getOutputDir(test.id, runDir);
+            const xmlPath = JunitParser.getDefaultXmlPath(outputDirs.hostDir);
 
             // Check if XML file exists
             if (!fs.existsSync(xmlPath)) {
@@ -884,9 +2497,9 @@ export class CodeceptionTestProvider {
             }
 
             // Get Docker config for reading XML file
-            const dockerConfig = this.getDockerConfig();
-            const containerXmlPath = dockerConfig?.workdir
-                ? `${dockerConfig.workdir}/tests/_output/report.xml`
+            const dockerConfig = this.getDockerConfig(test.id, this.getRunProfile(runDir));
+            const containerXmlPath = outputDirs.containerDir
+                ? `${outputDirs.containerDir}/report.xml`
                 : undefined;
 
             // Parse XML results
@@ -901,68 +2514,89 @@ export class CodeceptionTestProvider {
                 return;
             }
 
-            this.outputChannel.appendLine(`[Reconciliation] Reconciling ${xmlResults.size / 2} XML results with streaming results`);
+            // Each test case is stored under several names; compare each one once
+            const testCases = new Set(xmlResults.values());
+            this.outputChannel.appendLine(`[Reconciliation] Reconciling ${testCases.size} XML results with streaming results`);
 
             let correctionCount = 0;
+            const failedItems = new Set<vscode.TestItem>();
 
             // Compare XML results with streaming results and correct mismatches
-            for (const [testName, xmlResult] of xmlResults.entries()) {
-                // Skip duplicate entries (we store multiple variations for matching)
-                if (testName.toLowerCase() !== testName && xmlResults.has(testName.toLowerCase())) {
+            for (const xmlResult of testCases) {
+                // Test cases are matched within their file (batched runs span several files)
+                const file = xmlResult.file ? this.getReportedFilePath(test.id, xmlResult.file, this.getRunProfile(runDir)) : undefined;
+                const findItem = (name: string) => file
+                    ? testNameMap.get(`${file}:${name}`) ?? testNameMap.get(`${file}:${name.toLowerCase()}`)
+                    : testNameMap.get(name) ?? testNameMap.get(name.toLowerCase());
+
+                // Datasets of providers only resolved at run time are reported against their method
+                const testName = JunitParser.getDataSetTestName(xmlResult.name) ?? xmlResult.name;
+                const providerMethod = testName !== xmlResult.name ? findItem(testName.split('#')[0]) : undefined;
+                const testItem = findItem(testName)
+                    ?? (providerMethod?.children.size === 0 ? providerMethod : undefined);
+                if (!testItem) {
                     continue;
                 }
 
-                const testItem = testNameMap.get(testName);
-                if (!testItem) {
+                // Remember durations to balance parallel shards by time
+                if (xmlResult.time !== undefined) {
+                    this.testDurations.set(testItem.id, xmlResult.time);
+                }
+
+                // Structured events already reported this test's result
+                if (reportedTests?.has(testItem)) {
                     continue;
                 }
 
-                const streamingResult = testResults.get(testName);
                 const xmlPassed = xmlResult.status === 'passed';
-                const streamingPassed = streamingResult?.passed ?? true;
+                if (!xmlPassed) {
+                    failedItems.add(testItem);
+                } else if (failedItems.has(testItem)) {
+                    // Another dataset of the method failed
+                    continue;
+                }
+
+                const streamingResult = testResults.get(testItem);
+                if (streamingResult?.passed === xmlPassed) {
+                    continue;
+                }
 
-                // Check for mismatch
-                if (xmlPassed !== streamingPassed) {
+                if (streamingResult) {
                     correctionCount++;
                     this.outputChannel.appendLine(
-                        `[Reconciliation] Correcting ${testName}: streaming=${streamingPassed}, xml=${xmlPassed}`
+                        `[Reconciliation] Correcting ${testName}: streaming=${streamingResult.passed}, xml=${xmlPassed}`
                     );
-
-                    // Update test status to match XML (source of truth)
-                    if (xmlPassed) {
-                        run.passed(testItem);
-                    } else {
-                        // Create error message from XML failure/error
-                        let errorMessage = '';
-                        if (xmlResult.failure) {
-                            errorMessage = xmlResult.failure.content || xmlResult.failure.message;
-                        } else if (xmlResult.error) {
-                            errorMessage = xmlResult.error.content || xmlResult.error.message;
-                        }
-
-                        const message = new vscode.TestMessage(errorMessage || 'Test failed');
-                        run.failed(testItem, message);
-                    }
+                } else {
+                    // Tests that weren't in streaming output
+                    run.started(testItem);
+                    seenTests.add(testItem);
                 }
+                testResults.set(testItem, { passed: xmlPassed, output: '' });
 
-                // Mark test as seen (for tests that weren't in streaming output)
-                if (!seenTests.has(testName)) {
-                    run.started(testItem);
-                    seenTests.add(testName);
+                // Update test status to match XML (source of truth)
+                if (xmlPassed) {
+                    run.passed(testItem);
+                } else {
+                    // Create error message from XML failure/error
+                    let errorMessage = '';
+                    if (xmlResult.failure) {
+                        errorMessage = xmlResult.failure.content || xmlResult.failure.message;
+                    } else if (xmlResult.error) {
+                        errorMessage = xmlResult.error.content || xmlResult.error.message;
+                    }
 
-                    if (xmlPassed) {
-                        run.passed(testItem);
-                    } else {
-                        let errorMessage = '';
-                        if (xmlResult.failure) {
-                            errorMessage = xmlResult.failure.content || xmlResult.failure.message;
-                        } else if (xmlResult.error) {
-                            errorMessage = xmlResult.error.content || xmlResult.error.message;
-                        }
+                    const message = new vscode.TestMessage(errorMessage || 'Test failed');
+                    run.failed(testItem, message);
+                }
+            }
 
-                        const message = new vscode.TestMessage(errorMessage || 'Test failed');
-                        run.failed(testItem, message);
-                    }
+            // A data provider method fails when any of its datasets failed
+            const failedParents = new Set<vscode.TestItem>();
+            for (const failedItem of failedItems) {
+                const parentMethod = failedItem.parent;
+                if (parentMethod && parentMethod.id.includes('::') && !failedItems.has(parentMethod) && !failedParents.has(parentMethod)) {
+                    failedParents.add(parentMethod);
+                    run.failed(parentMethod, new vscode.TestMessage(`Dataset ${failedItem.label} failed`));
                 }
             }
 
@@ -979,44 +2613,96 @@ export class CodeceptionTestProvider {
         }
     }
 
-    private buildTestCommand(binary: string, testId: string, coverageFilePath?: string): string {
+    /**
+     * Build the argument vector running a test (suite, file, method or project) with codecept
+     * Arguments are passed to the process as they are, so paths, filters and env values need no quoting.
+     */
+    private buildTestCommand(
+        binary: string,
+        testId: string,
+        options: {
+            coverageFilePath?: string;
+            env?: string;
+            groupFile?: string;
+            runDir?: string;
+            debug?: { clientHost: string; port: number };
+        } = {}
+    ): string[] {
+        const { coverageFilePath, env, groupFile, runDir, debug } = options;
         const hasMethodSeparator = testId.includes('::');
         const hasFileSeparator = testId.includes(':');
 
-        // Get configuration
-        const config = vscode.workspace.getConfiguration('codeceptionphp');
-        const binaryArgs = config.get<string>('binary.args', '--steps');
-
-        let command: string;
-
-        if (hasMethodSeparator) {
-            // Method level: "suite:file::method"
-            const [fileId, method] = testId.split('::');
-            const [suite, file] = fileId.split(':', 2);
-            command = `${binary} run ${suite} ${file}:${method}`;
+        // Get configuration (a named run profile overrides parts of it)
+        const config = this.getConfiguration(testId);
+        const profile = this.getRunProfile(runDir);
+        const workspaceRoot = this.getWorkspaceRoot(testId);
+        const binaryArgs = profile?.args ?? config.get<string>('binary.args', '--steps');
+
+        // Every command targets its project's config file explicitly
+        const project = this.getProjectForTest(testId);
+        const configArgs = project
+            ? ['-c', this.toPosixPath(path.relative(workspaceRoot, project.configPath))]
+            : [];
+
+        // The binary setting may include an interpreter ("php vendor/bin/codecept")
+        const command = [...splitCommandLine(binary), 'run', ...configArgs];
+
+        if (this.projects.has(testId)) {
+            // Project level (included project): run all of its suites
+        } else if (hasMethodSeparator) {
+            // Method level: "suite:file::method" (or "suite:file::method#dataset")
+            const [fileId, testName] = testId.split('::');
+            const [suiteId, file] = fileId.split(':', 2);
+            // Gherkin example rows cannot be filtered individually - run their outline
+            // PHPUnit filters datasets by index with "#0" and by name with "@name" (PHP turns numeric string keys into indexes)
+            const method = file.endsWith('.feature')
+                ? testName.replace(/#\d+$/, '')
+                : testName.replace(/#(?!(?:0|[1-9]\d*)$)([^#]+)$/, '@$1');
+            command.push(this.getSuiteName(suiteId), `${this.getProjectRelativePath(testId, file)}:${method}`);
         } else if (hasFileSeparator) {
             // File level: "suite:file"
-            const [suite, file] = testId.split(':', 2);
-            command = `${binary} run ${suite} ${file}`;
+            const [suiteId, file] = testId.split(':', 2);
+            command.push(this.getSuiteName(suiteId), this.getProjectRelativePath(testId, file));
         } else {
             // Suite level: "suite"
-            command = `${binary} run ${testId}`;
+            command.push(this.getSuiteName(testId));
         }
 
         // Add user-specified arguments/flags
         if (binaryArgs) {
-            command += ` ${binaryArgs}`;
+            command.push(...splitCommandLine(binaryArgs));
+        }
+
+        // Run against a Codeception environment (tests/_envs/<env>.yml)
+        if (env) {
+            command.push('--env', env);
+        }
+
+        // Run only the tests listed in a group file, registered through a config override
+        if (groupFile) {
+            const groupPath = this.toPosixPath(path.relative(project?.rootDir ?? workspaceRoot, groupFile));
+            command.push('-g', SELECTION_GROUP, '-o', `groups: ${SELECTION_GROUP}: ${groupPath}`);
+        }
+
+        // Each run writes its reports, coverage and failed list to its own output directory
+        if (runDir) {
+            const outputDir = this.getOutputDir(testId, runDir).hostDir;
+            fs.mkdirSync(outputDir, { recursive: true });
+            this.coverageManager.registerRunDirectory(this.getOutputDir(testId, runDir.split('/')[0]).hostDir);
+
+            const outputPath = this.toPosixPath(path.relative(project?.rootDir ?? workspaceRoot, outputDir));
+            command.push('-o', `paths: output: ${outputPath}`);
         }
 
         // Add group filters if configured
-        const includeGroups = config.get<string[]>('groups.include', []);
-        const excludeGroups = config.get<string[]>('groups.exclude', []);
+        const includeGroups = profile?.groups?.include ?? config.get<string[]>('groups.include', []);
+        const excludeGroups = profile?.groups?.exclude ?? config.get<string[]>('groups.exclude', []);
 
         // Only add --group flags if array is not empty and contains non-empty strings
         if (includeGroups && includeGroups.length > 0) {
             for (const group of includeGroups) {
                 if (group && group.trim()) {
-                    command += ` --group ${group.trim()}`;
+                    command.push('--group', group.trim());
                 }
             }
         }
@@ -1025,65 +2711,305 @@ export class CodeceptionTestProvider {
         if (excludeGroups && excludeGroups.length > 0) {
             for (const group of excludeGroups) {
                 if (group && group.trim()) {
-                    command += ` --skip-group ${group.trim()}`;
+                    command.push('--skip-group', group.trim());
                 }
             }
         }
 
+        // Report structured per-test events for live results (the console output regexes are the fallback)
+        const reporterPath = config.get<boolean>('reporter.enabled', true) ? this.installReporter(testId) : undefined;
+        if (reporterPath) {
+            command.push('--bootstrap', reporterPath, '--ext', REPORTER_CLASS);
+        }
+
         // Add XML output flag for accurate test result parsing
-        // Codeception outputs to tests/_output/report.xml by default
-        command += ` --xml`;
+        // Codeception outputs to <paths.output>/report.xml
+        command.push('--xml');
 
         // Add coverage flags if coverage file path is provided
         if (coverageFilePath) {
-            // Quote the path to handle spaces and special characters
-            const quotedPath = coverageFilePath.includes(' ') ? `"${coverageFilePath}"` : coverageFilePath;
-            // Use --coverage-xml without path - Codeception outputs to tests/_output/coverage.xml by default
+            // Use --coverage-xml without path - Codeception outputs to <paths.output>/coverage.xml
             // Then we'll copy/read from there
-            command += ` --coverage --coverage-xml`;
+            command.push('--coverage', '--coverage-xml');
+        }
+
+        // Build environment variables for Docker
+        const containerEnv: Record<string, string> = {};
+
+        // If running with coverage, set XDEBUG_MODE environment variable
+        if (coverageFilePath) {
+            containerEnv.XDEBUG_MODE = 'coverage';
+        }
+
+        // If debugging, make Xdebug connect back to the debug session
+        if (debug) {
+            Object.assign(containerEnv, this.getXdebugEnv(debug));
+        }
+
+        // Named run profiles pass their environment variables into the container
+        Object.assign(containerEnv, profile?.envVars);
+
+        return this.wrapForRuntime(command, testId, containerEnv, profile);
+    }
+
+    /**
+     * Wrap a command in docker exec or the command template, depending on where Codeception runs (unchanged locally)
+     * @param env Environment variables of the command in the container, before the ones of codeceptionphp.docker.env
+     * @param profile Named run profile whose target overrides the configured one
+     */
+    private wrapForRuntime(command: string[], testId: string, env: Record<string, string> = {}, profile?: NamedRunProfile): string[] {
+        const config = this.getConfiguration(testId);
+        const target = this.getExecutionTarget(testId, profile);
+
+        if (target === 'template') {
+            const template = this.runnerBackend.getTemplate(config);
+            if (!template) {
+                this.outputChannel.appendLine('WARNING: Command template target but no codeceptionphp.runner.command or preset configured');
+                return command;
+            }
+            return this.runnerBackend.buildCommand(template.command, command, {
+                workdir: template.workdir || this.getWorkspaceRoot(testId),
+                env,
+            });
+        }
+
+        if (target !== 'docker') {
+            return this.getLocalCommand(command);
+        }
+
+        const container = this.getDockerContainer(testId);
+
+        if (!container) {
+            this.outputChannel.appendLine('WARNING: Docker enabled but no container specified');
+            vscode.window.showWarningMessage(
+                'Docker is enabled but no container is configured. Please select a container using "Codeception Test Explorer: Run From Docker..." command.',
+                'OK'
+            );
+            return command; // Return original command if container not set
+        }
+
+        // Get the working directory inside the container (auto-detected or configured)
+        const workdir = config.get<string>('docker.workdir', '') || this.getWorkspaceRoot(testId);
+
+        // Add custom environment variables from settings
+        const containerEnv = { ...env };
+        const dockerEnv = config.get<Record<string, string>>('docker.env', {});
+        for (const [key, value] of Object.entries(dockerEnv)) {
+            // Only pass variables with both a non-empty key and value
+            if (key && key.trim() && value && value.trim()) {
+                containerEnv[key] = value;
+            }
+        }
+
+        // Wrap command with docker exec (-e environment variables, -w working directory inside the container)
+        return this.dockerService.buildExecCommand(container, command, { workdir, env: containerEnv });
+    }
+
+    /**
+     * Make a command spawnable on the host without a shell
+     * On Windows, vendor/bin/codecept is a PHP script with a codecept.bat proxy next to it, and neither can be
+     * spawned directly: the script runs through php instead (the arguments stay a vector).
+     */
+    private getLocalCommand(command: string[]): string[] {
+        if (process.platform !== 'win32' || command.length === 0) {
+            return command;
+        }
+
+        const [executable, ...args] = command;
+        const extension = path.extname(executable).toLowerCase();
+        if (extension === '.exe' || /^php(\.exe)?$/i.test(path.basename(executable))) {
+            return command;
+        }
+
+        // The .bat proxy only forwards to the PHP script of the same name
+        const script = extension === '.bat' || extension === '.cmd' ? executable.slice(0, -extension.length) : executable;
+        return ['php', script, ...args];
+    }
+
+    /**
+     * Get where Codeception runs: the named run profile's target, else the command template when one is configured,
+     * else Docker when codeceptionphp.docker.enabled is set
+     */
+    private getExecutionTarget(testId?: string, profile?: NamedRunProfile): ExecutionTarget {
+        if (profile?.target) {
+            return profile.target;
+        }
+
+        const config = this.getConfiguration(testId);
+        if (this.runnerBackend.getTemplate(config)) {
+            return 'template';
+        }
+        return config.get<boolean>('docker.enabled', false) ? 'docker' : 'local';
+    }
+
+    /**
+     * Get the path of the workspace folder where Codeception runs (docker.workdir, or the template's workdir)
+     * @returns The runtime path, or undefined when it runs locally (or the path is the same)
+     */
+    private getRuntimeWorkdir(testId: string, profile?: NamedRunProfile): string | undefined {
+        const config = this.getConfiguration(testId);
+
+        switch (this.getExecutionTarget(testId, profile)) {
+            case 'docker':
+                return config.get<string>('docker.workdir', '') || undefined;
+            case 'template':
+                return this.runnerBackend.getTemplate(config)?.workdir;
+            default:
+                return undefined;
         }
+    }
+
+    /**
+     * Translate a path reported by Codeception where it runs (container or runtime) to the host
+     * @param profile Named run profile whose target overrides the configured one
+     * @returns The host path, or the path unchanged when it is not under the runtime workdir
+     */
+    private toHostPath(testId: string, file: string, profile?: NamedRunProfile): string {
+        const runtimeWorkdir = this.getRuntimeWorkdir(testId, profile);
+        if (runtimeWorkdir && path.posix.isAbsolute(file) && file.startsWith(`${runtimeWorkdir}/`)) {
+            return path.join(this.getWorkspaceRoot(testId), path.posix.relative(runtimeWorkdir, file));
+        }
+        return file;
+    }
+
+    /**
+     * Get the named run profile of the run an output directory belongs to ("<run ID>/<n>")
+     */
+    private getRunProfile(runDir?: string): NamedRunProfile | undefined {
+        return runDir ? this.runProfiles.get(runDir.split('/')[0]) : undefined;
+    }
+
+    /**
+     * Get the test tree root (workspace folder + project) a test item belongs to
+     */
+    private getRootForTest(testId: string): CodeceptionRoot | undefined {
+        const project = this.projects.get(testId);
+        if (project) {
+            return project.root;
+        }
+
+        const suiteId = testId.split(':')[0];
+        return this.suites.get(suiteId)?.root ?? this.roots[0];
+    }
 
-        // Check if Docker is enabled
-        const useDocker = config.get<boolean>('docker.enabled', false);
+    /**
+     * Get the workspace folder path a test item belongs to
+     * File paths in test IDs are relative to it, and commands run from it
+     */
+    private getWorkspaceRoot(testId: string): string {
+        return this.getRootForTest(testId)?.folder.uri.fsPath
+            ?? vscode.workspace.workspaceFolders?.[0]?.uri.fsPath
+            ?? '';
+    }
+
+    /**
+     * Get the extension settings for the workspace folder a test item belongs to
+     */
+    private getConfiguration(testId?: string): vscode.WorkspaceConfiguration {
+        const root = testId !== undefined ? this.getRootForTest(testId) : this.roots[0];
+        return vscode.workspace.getConfiguration('codeceptionphp', root?.folder.uri);
+    }
+
+    /**
+     * Get the Codeception project a test item belongs to
+     */
+    private getProjectForTest(testId: string): CodeceptionProject | undefined {
+        const project = this.projects.get(testId);
+        if (project) {
+            return project.project;
+        }
+
+        const suiteId = testId.split(':')[0];
+        return this.suites.get(suiteId)?.project ?? this.roots[0]?.project;
+    }
+
+    /**
+     * Get the Codeception suite name for a suite ID (included projects prefix it with their directory)
+     */
+    private getSuiteName(suiteId: string): string {
+        return this.suites.get(suiteId)?.suite.name ?? suiteId;
+    }
 
-        if (useDocker) {
-            const container = config.get<string>('docker.container', '');
+    /**
+     * Convert a workspace-relative file path to one relative to the project's config directory
+     * Codeception resolves test paths from the directory of the config passed with -c
+     */
+    private getProjectRelativePath(testId: string, workspaceRelativePath: string): string {
+        const project = this.getProjectForTest(testId);
+        if (!project) {
+            return workspaceRelativePath;
+        }
+        return this.toPosixPath(path.relative(project.rootDir, path.join(this.getWorkspaceRoot(testId), workspaceRelativePath)));
+    }
 
-            if (!container) {
-                this.outputChannel.appendLine('WARNING: Docker enabled but no container specified');
-                vscode.window.showWarningMessage(
-                    'Docker is enabled but no container is configured. Please select a container using "Codeception Test Explorer: Run From Docker..." command.',
-                    'OK'
-                );
-                return command; // Return original command if container not set
-            }
+    /**
+     * Get the report output directory for a test
+     * @param runDir Output subdirectory of one run's Codeception process ("<run ID>/<n>")
+     * @returns Host path, plus the matching container path when Docker is enabled
+     */
+    private getOutputDir(testId: string, runDir?: string): { hostDir: string; containerDir?: string } {
+        const project = this.getProjectForTest(testId);
+        const workspaceRoot = this.getWorkspaceRoot(testId);
+        const outputDir = project?.outputDir ?? path.join(workspaceRoot, 'tests', '_output');
+        const hostDir = runDir ? path.join(outputDir, runDir) : outputDir;
+
+        // A run's named profile may run Codeception somewhere else than configured
+        const dockerConfig = this.getDockerConfig(testId, this.getRunProfile(runDir));
+        const containerDir = dockerConfig?.workdir
+            ? path.posix.join(dockerConfig.workdir, this.toPosixPath(path.relative(workspaceRoot, hostDir)))
+            : undefined;
+
+        return { hostDir, containerDir };
+    }
 
-            // Get the working directory inside the container (auto-detected or configured)
-            const workdir = config.get<string>('docker.workdir', '') || this.workspaceRoot;
+    /**
+     * Allocate the output subdirectory of one Codeception process of a run
+     */
+    private createRunDir(runId: string): string {
+        return `${runId}/${++this.runDirCounter}`;
+    }
 
-            // Build environment variable flags
-            let envFlags = '';
+    /**
+     * Keep what outlives a finished run, then remove its output directories through the coverage manager
+     * The failed tests lists of its processes are merged into the project's list, as a terminal run would leave it.
+     */
+    private async finishRun(runId: string): Promise<void> {
+        const visitedOutputDirs = new Set<string>();
 
-            // If running with coverage, set XDEBUG_MODE environment variable
-            if (coverageFilePath) {
-                envFlags += '-e XDEBUG_MODE=coverage ';
+        for (const suiteId of this.suites.keys()) {
+            const outputDir = this.getOutputDir(suiteId).hostDir;
+            const runOutputDir = this.getOutputDir(suiteId, runId).hostDir;
+            if (visitedOutputDirs.has(outputDir) || !fs.existsSync(runOutputDir)) {
+                continue;
             }
+            visitedOutputDirs.add(outputDir);
+
+            try {
+                const failed = new Set<string>();
+                for (const failedList of glob.sync('*/failed', { cwd: runOutputDir, absolute: true })) {
+                    fs.readFileSync(failedList, 'utf-8')
+                        .split(/\r?\n/)
+                        .filter(line => line.trim())
+                        .forEach(line => failed.add(line));
+                }
 
-            // Add custom environment variables from settings
-            const dockerEnv = config.get<Record<string, string>>('docker.env', {});
-            for (const [key, value] of Object.entries(dockerEnv)) {
-                // Only add -e flag if both key and value are non-empty
-                if (key && key.trim() && value && value.trim()) {
-                    envFlags += `-e ${key}=${value} `;
+                const failedPath = path.join(outputDir, 'failed');
+                if (failed.size > 0) {
+                    fs.writeFileSync(failedPath, Array.from(failed).join('\n'));
+                } else {
+                    fs.rmSync(failedPath, { force: true });
                 }
+            } catch (error: any) {
+                const errorMessage = error?.message || String(error);
+                this.outputChannel.appendLine(`[TestRun] ERROR collecting failed tests of ${runOutputDir}: ${errorMessage}`);
             }
 
-            // Wrap command with docker exec
-            // Use -e flag to set environment variables and -w flag to set working directory inside container
-            command = `docker exec ${envFlags}-w "${workdir}" ${container} ${command}`;
+            await this.coverageManager.cleanupRunDirectory(runOutputDir);
         }
+    }
 
-        return command;
+    private toPosixPath(filePath: string): string {
+        return filePath.split(path.sep).join(path.posix.sep);
     }
 
     private cleanCodeceptionOutput(output: string): string {
@@ -1132,31 +3058,45 @@ export class CodeceptionTestProvider {
     private async runTestWithCoverage(
         test: vscode.TestItem,
         run: vscode.TestRun,
-        coverageFilePath: string,
-        token: vscode.CancellationToken
+        runDir: string,
+        token: vscode.CancellationToken,
+        env?: string
     ): Promise<void> {
+        if (env) {
+            // @env tests only run in their own environments
+            if (!this.runsInEnv(test, env)) {
+                run.skipped(test);
+                return;
+            }
+            this.skipTestsOutsideEnv(test, env, run);
+        }
+
         run.started(test);
 
         try {
-            const config = vscode.workspace.getConfiguration('codeceptionphp');
+            const config = this.getConfiguration(test.id);
             const binary = config.get<string>('binary.path', 'vendor/bin/codecept');
 
             // Build command with coverage flags
-            const command = this.buildTestCommand(binary, test.id, coverageFilePath);
+            const coverageFilePath = path.join(this.getOutputDir(test.id, runDir).hostDir, 'coverage.xml');
+            const command = this.buildTestCommand(binary, test.id, { coverageFilePath, env, runDir });
 
             // Append command to output
-            run.appendOutput(`Running with coverage: ${command}\r\n`);
+            run.appendOutput(`Running with coverage: ${formatCommand(command)}\r\n`);
 
             // Use streaming for tests with children (suite/file level), buffered for single methods
             if (test.children.size > 0) {
-                await this.executeTestWithStreaming(test, run, command, token);
+                await this.executeTestWithStreaming(test, run, command, token, { env, runDir });
             } else {
                 // Single test method - use buffered approach
-                const { stdout, stderr } = await execAsync(command, {
-                    cwd: this.workspaceRoot,
+                const { stdout, stderr: rawStderr } = await execFileAsync(command[0], command.slice(1), {
+                    cwd: this.getWorkspaceRoot(test.id),
+                    env: { ...process.env, ...this.getRunProfile(runDir)?.envVars },
                     timeout: 300000 // 5 minute timeout
                 });
 
+                const stderr = this.stripResultEvents(rawStderr);
+
                 // Clean and capture output
                 const cleanedOutput = this.cleanCodeceptionOutput(stdout);
                 if (cleanedOutput) {
@@ -1167,21 +3107,21 @@ export class CodeceptionTestProvider {
                 }
 
                 // Try XML parsing first (more accurate), fall back to regex if needed
-                const xmlParsed = await this.parseXmlForSingleTest(test, run, stdout, stderr);
+                const xmlParsed = await this.parseXmlForSingleTest(test, run, stdout, stderr, runDir);
 
                 if (!xmlParsed) {
                     // Fallback: Parse output and mark test results using regex
                     const hasFatalError = this.detectFatalError(stdout, stderr);
                     const hasFailures = stdout.includes('FAILURES!') || stdout.includes('FAILED') || stderr.includes('FAILED') || hasFatalError;
-                    const hasPassed = stdout.includes('OK (') || stdout.includes('PASSED') || stdout.match(/✓/g);
+                    const hasPassed = this.hasPassedOutput(stdout);
 
                     if (hasFailures) {
-                        const message = this.createErrorMessage(stdout, stderr, test);
+                        const message = this.createErrorMessage(stdout, stderr, test, undefined, this.getRunProfile(runDir));
                         run.failed(test, message);
                     } else if (hasPassed) {
                         run.passed(test);
                     } else {
-                        run.passed(test);
+                        run.errored(test, new vscode.TestMessage(NO_RESULT_MESSAGE));
                     }
                 }
             }
@@ -1189,7 +3129,7 @@ export class CodeceptionTestProvider {
         } catch (error: any) {
             // Handle errors same as regular runTest
             const stdout = error.stdout || '';
-            const stderr = error.stderr || '';
+            const stderr = this.stripResultEvents(error.stderr || '');
             const errorMessage = error.message || error.toString();
 
             // Check for Docker-specific errors
@@ -1208,7 +3148,7 @@ export class CodeceptionTestProvider {
                     if (selection === 'View Output') {
                         this.outputChannel.show();
                     } else if (selection === 'Disable Docker') {
-                        const config = vscode.workspace.getConfiguration('codeceptionphp');
+                        const config = this.getConfiguration(test.id);
                         await config.update('docker.enabled', false, vscode.ConfigurationTarget.Workspace);
                         vscode.window.showInformationMessage('Docker support disabled. Tests will run locally.');
                     }
@@ -1242,39 +3182,166 @@ export class CodeceptionTestProvider {
                 this.parseAndMarkChildren(test, run, stdout, stderr, hasFailures);
             } else {
                 // Leaf test (method level) - mark as failed with the full output
-                const message = this.createErrorMessage(stdout, stderr, test, errorMessage);
+                const message = this.createErrorMessage(stdout, stderr, test, errorMessage, this.getRunProfile(runDir));
                 run.failed(test, message);
             }
         }
     }
 
-    private async runTest(test: vscode.TestItem, run: vscode.TestRun, token: vscode.CancellationToken) {
+    /**
+     * Resolve a @depends target to a test ID
+     * Targets are "method" (same class), or "Class:method" / "Class::method" for a test class elsewhere in the suites.
+     */
+    private resolveDependency(target: string, fileId: string): string | undefined {
+        const separatorIndex = target.lastIndexOf(':');
+        if (separatorIndex === -1) {
+            return `${fileId}::${target}`;
+        }
+
+        const className = target.substring(0, separatorIndex).replace(/:$/, '');
+        const methodName = target.substring(separatorIndex + 1);
+        const classFile = this.classIndex.findClassFile(className);
+        const suiteEntry = classFile ? this.findSuiteForFile(classFile) : undefined;
+        if (!classFile || !suiteEntry) {
+            return undefined;
+        }
+
+        return `${suiteEntry.suiteId}:${path.relative(this.getWorkspaceRoot(suiteEntry.suiteId), classFile)}::${methodName}`;
+    }
+
+    /**
+     * Show missing @depends targets and dependency cycles as errors on the affected test items
+     */
+    private reportDependencyErrors(): void {
+        for (const testId of this.dependencyGraph.getDependentTests()) {
+            const testItem = this.findTestItem(testId);
+            if (testItem) {
+                const errors = this.dependencyGraph.validate(testId, id => this.findTestItem(id) !== undefined);
+                testItem.error = errors.length > 0 ? errors.join('\n') : undefined;
+            }
+        }
+    }
+
+    /**
+     * Find a discovered test item by ID ("suite", "suite:file", "suite:file::method" or "suite:file::method#dataset")
+     */
+    private findTestItem(testId: string): vscode.TestItem | undefined {
+        const [fileId, testName] = testId.split('::');
+        const suiteId = fileId.split(':')[0];
+        const suiteItem = this.suites.get(suiteId)?.item;
+        if (fileId === suiteId) {
+            return suiteItem;
+        }
+
+        const fileItem = suiteItem?.children.get(fileId);
+        if (testName === undefined) {
+            return fileItem;
+        }
+
+        const separator = testName.lastIndexOf('#');
+        if (separator < 0 || fileItem?.children.get(testId)) {
+            return fileItem?.children.get(testId);
+        }
+
+        const methodItem = fileItem?.children.get(`${fileId}::${testName.substring(0, separator)}`);
+        return methodItem?.children.get(testId);
+    }
+
+    /**
+     * Build the command running a test together with its @depends prerequisites
+     * Codeception only honours dependencies within one invocation, so they must run in the same command.
+     * @returns The command, or null when the dependencies span several suites
+     */
+    private buildDependencyCommand(
+        binary: string,
+        test: vscode.TestItem,
+        prerequisites: string[],
+        env?: string,
+        runDir?: string
+    ): string[] | null {
+        const [fileId, testName] = test.id.split('::');
+        const fileIds = new Set([fileId, ...prerequisites.map(id => id.split('::')[0])]);
+
+        if (fileIds.size === 1) {
+            // Codeception treats the method filter as a regular expression
+            const methodNames = [...prerequisites.map(id => id.split('::')[1]), testName];
+            return this.buildTestCommand(binary, `${fileId}::${methodNames.join('|')}`, { env, runDir });
+        }
+
+        // Dependencies in other files of the suite: run the suite and let Codeception order it
+        const suiteIds = new Set(Array.from(fileIds).map(id => id.split(':')[0]));
+        if (suiteIds.size === 1) {
+            return this.buildTestCommand(binary, Array.from(suiteIds)[0], { env, runDir });
+        }
+
+        return null;
+    }
+
+    private async runTest(test: vscode.TestItem, run: vscode.TestRun, token: vscode.CancellationToken, env?: string, runDir?: string) {
+        if (env) {
+            // @env tests only run in their own environments
+            if (!this.runsInEnv(test, env)) {
+                run.skipped(test);
+                return;
+            }
+            this.skipTestsOutsideEnv(test, env, run);
+        }
+
         run.started(test);
 
         try {
-            const config = vscode.workspace.getConfiguration('codeceptionphp');
+            const config = this.getConfiguration(test.id);
             const binary = config.get<string>('binary.path', 'vendor/bin/codecept');
 
+            // Methods with @depends run together with their prerequisites, in dependency order
+            const methodId = test.id.includes('::') ? test.id.replace(/#[^:]*$/, '') : '';
+            const dependencyErrors = methodId ? this.dependencyGraph.validate(methodId, id => this.findTestItem(id) !== undefined) : [];
+            if (dependencyErrors.length > 0) {
+                run.errored(test, new vscode.TestMessage(dependencyErrors.join('\n')));
+                return;
+            }
+
+            const prerequisites = methodId ? this.dependencyGraph.getPrerequisites(methodId) : [];
+            if (prerequisites.length > 0) {
+                const prerequisiteItems = prerequisites
+                    .map(id => this.findTestItem(id))
+                    .filter((item): item is vscode.TestItem => item !== undefined);
+                prerequisiteItems.forEach(item => run.enqueued(item));
+
+                const dependencyCommand = this.buildDependencyCommand(binary, test, prerequisites, env, runDir);
+                if (!dependencyCommand) {
+                    run.errored(test, new vscode.TestMessage('@depends targets in other suites cannot run in the same Codeception invocation'));
+                    return;
+                }
+
+                run.appendOutput(`Running with dependencies: ${formatCommand(dependencyCommand)}\r\n`);
+                await this.executeTestWithStreaming(test, run, dependencyCommand, token, { env, tests: [test, ...prerequisiteItems], runDir });
+                return;
+            }
+
             // Build command based on test level
             // Test ID formats:
             //   Suite:  "unit"
             //   File:   "unit:tests/unit/path/TestFile.php"
             //   Method: "unit:tests/unit/path/TestFile.php::methodName"
-            const command = this.buildTestCommand(binary, test.id);
+            const command = this.buildTestCommand(binary, test.id, { env, runDir });
 
             // Append command to output
-            run.appendOutput(`Running: ${command}\r\n`);
+            run.appendOutput(`Running: ${formatCommand(command)}\r\n`);
 
             // Use streaming for tests with children (suite/file level), buffered for single methods
             if (test.children.size > 0) {
-                await this.executeTestWithStreaming(test, run, command, token);
+                await this.executeTestWithStreaming(test, run, command, token, { env, runDir });
             } else {
                 // Single test method - use buffered approach (faster for single tests)
-                const { stdout, stderr } = await execAsync(command, {
-                    cwd: this.workspaceRoot,
+                const { stdout, stderr: rawStderr } = await execFileAsync(command[0], command.slice(1), {
+                    cwd: this.getWorkspaceRoot(test.id),
+                    env: { ...process.env, ...this.getRunProfile(runDir)?.envVars },
                     timeout: 300000 // 5 minute timeout
                 });
 
+                const stderr = this.stripResultEvents(rawStderr);
+
                 // Clean and capture output
                 const cleanedOutput = this.cleanCodeceptionOutput(stdout);
                 if (cleanedOutput) {
@@ -1285,31 +3352,31 @@ export class CodeceptionTestProvider {
                 }
 
                 // Try XML parsing first (more accurate), fall back to regex if needed
-                const xmlParsed = await this.parseXmlForSingleTest(test, run, stdout, stderr);
+                const xmlParsed = await this.parseXmlForSingleTest(test, run, stdout, stderr, runDir);
 
                 if (!xmlParsed) {
                     // Fallback: Parse output and mark test results using regex
                     const hasFatalError = this.detectFatalError(stdout, stderr);
                     const hasFailures = stdout.includes('FAILURES!') || stdout.includes('FAILED') || stderr.includes('FAILED') || hasFatalError;
-                    const hasPassed = stdout.includes('OK (') || stdout.includes('PASSED') || stdout.match(/✓/g);
+                    const hasPassed = this.hasPassedOutput(stdout);
 
                     // Leaf test (method level) - mark based on overall result
                     if (hasFailures) {
-                        const message = this.createErrorMessage(stdout, stderr, test);
+                        const message = this.createErrorMessage(stdout, stderr, test, undefined, this.getRunProfile(runDir));
                         run.failed(test, message);
                     } else if (hasPassed) {
                         run.passed(test);
                     } else {
-                        // If we can't determine, assume passed if no failures
-                        run.passed(test);
+                        // The filter matched no test, or Codeception stopped before it
+                        run.errored(test, new vscode.TestMessage(NO_RESULT_MESSAGE));
                     }
                 }
             }
 
         } catch (error: any) {
-            // When execAsync fails, stdout/stderr are available on the error object
+            // When execFileAsync fails, stdout/stderr are available on the error object
             const stdout = error.stdout || '';
-            const stderr = error.stderr || '';
+            const stderr = this.stripResultEvents(error.stderr || '');
             const errorMessage = error.message || error.toString();
 
             // Check for Docker-specific errors
@@ -1330,7 +3397,7 @@ export class CodeceptionTestProvider {
                     if (selection === 'View Output') {
                         this.outputChannel.show();
                     } else if (selection === 'Disable Docker') {
-                        const config = vscode.workspace.getConfiguration('codeceptionphp');
+                        const config = this.getConfiguration(test.id);
                         await config.update('docker.enabled', false, vscode.ConfigurationTarget.Workspace);
                         vscode.window.showInformationMessage('Docker support disabled. Tests will run locally.');
                     }
@@ -1365,7 +3432,7 @@ export class CodeceptionTestProvider {
                 this.parseAndMarkChildren(test, run, stdout, stderr, hasFailures);
             } else {
                 // Leaf test (method level) - mark as failed with the full output
-                const message = this.createErrorMessage(stdout, stderr, test, errorMessage);
+                const message = this.createErrorMessage(stdout, stderr, test, errorMessage, this.getRunProfile(runDir));
                 run.failed(test, message);
             }
         }
@@ -1622,6 +3689,13 @@ export class CodeceptionTestProvider {
         return testId.split('::').pop() || '';
     }
 
+    /**
+     * Check whether the console output reports tests that passed ("OK (0 tests" means the filter matched nothing)
+     */
+    private hasPassedOutput(stdout: string): boolean {
+        return (stdout.includes('OK (') && !stdout.includes('OK (0 tests')) || stdout.includes('PASSED') || stdout.includes('✓');
+    }
+
     private detectFatalError(stdout: string, stderr: string): boolean {
         // Check for PHP Fatal Error patterns in both stdout and stderr
         const fatalErrorPatterns = [
@@ -1677,17 +3751,31 @@ export class CodeceptionTestProvider {
         return null;
     }
 
-    private createErrorMessage(stdout: string, stderr: string, test: vscode.TestItem, fallbackMessage?: string): vscode.TestMessage {
+    /**
+     * Build the message of a failed test from the output, located at the fatal error when there is one
+     * @param profile Named run profile of the run (to map the paths of fatal errors)
+     */
+    private createErrorMessage(
+        stdout: string,
+        stderr: string,
+        test: vscode.TestItem,
+        fallbackMessage?: string,
+        profile?: NamedRunProfile
+    ): vscode.TestMessage {
         // Check if there's a fatal error
         const fatalErrorInfo = this.extractFatalErrorInfo(stdout, stderr);
 
         if (fatalErrorInfo) {
-            const fullOutput = [stdout, stderr].filter(Boolean).join('\r\n\r\n');
+            // Missing actor methods usually mean the generated actor actions predate a module change
+            const actorHint = /undefined method [\w\\]*Tester::/i.test(fatalErrorInfo.message)
+                ? 'The generated actor classes may be out of date - run codecept build.'
+                : '';
+            const fullOutput = [actorHint, stdout, stderr].filter(Boolean).join('\r\n\r\n');
             const message = new vscode.TestMessage(fullOutput || fatalErrorInfo.message);
 
             // If we have file and line information, add location to the message
             if (fatalErrorInfo.file && fatalErrorInfo.line !== undefined) {
-                const fileUri = vscode.Uri.file(fatalErrorInfo.file);
+                const fileUri = vscode.Uri.file(this.toHostPath(test.id, fatalErrorInfo.file, profile));
                 const position = new vscode.Position(fatalErrorInfo.line - 1, 0);
                 message.location = new vscode.Location(fileUri, position);
             }
@@ -1748,8 +3836,428 @@ export class CodeceptionTestProvider {
         return errorMessage;
     }
 
+    /**
+     * Check whether a test runs in an environment
+     * Tests without @env run everywhere; "chrome,dev" environments match tests for either part.
+     */
+    private runsInEnv(test: vscode.TestItem, env: string): boolean {
+        const testEnvs = test.tags
+            .filter(tag => tag.id.startsWith(ENV_TAG_PREFIX))
+            .flatMap(tag => tag.id.substring(ENV_TAG_PREFIX.length).split(','));
+        if (testEnvs.length === 0) {
+            return true;
+        }
+
+        return env.split(',').some(part => testEnvs.includes(part));
+    }
+
+    /**
+     * Mark the descendants of a test that are restricted to other environments as skipped
+     */
+    private skipTestsOutsideEnv(test: vscode.TestItem, env: string, run: vscode.TestRun): void {
+        test.children.forEach(child => {
+            if (this.runsInEnv(child, env)) {
+                this.skipTestsOutsideEnv(child, env, run);
+            } else {
+                run.skipped(child);
+            }
+        });
+    }
+
+    /**
+     * Create a run profile per discovered environment, plus a combined profile for several environments
+     * Profiles are only recreated when the set of environments changes.
+     */
+    private updateEnvProfiles(): void {
+        const envs = new Set<string>();
+        const collectEnvs = (project: CodeceptionProject) => {
+            project.envs.forEach(env => envs.add(env));
+            project.includes.forEach(collectEnvs);
+        };
+        this.roots.forEach(root => collectEnvs(root.project));
+
+        const envNames = Array.from(envs).sort();
+        if (envNames.join('\n') === this.envNames.join('\n')) {
+            return;
+        }
+
+        this.envProfiles.forEach(profile => profile.dispose());
+        this.envProfiles = [];
+        this.envNames = envNames;
+        this.selectedEnvs = this.selectedEnvs?.filter(env => envNames.includes(env));
+
+        for (const env of envNames) {
+            const envProfile = this.testController.createRunProfile(
+                `Run (${env})`,
+                vscode.TestRunProfileKind.Run,
+                (request, token) => this.runTests(request, token, [env]),
+                false
+            );
+            envProfile.configureHandler = () => this.selectRetryCount(envProfile);
+            this.envProfiles.push(envProfile);
+        }
+
+        if (envNames.length > 1) {
+            const combinedProfile = this.testController.createRunProfile(
+                'Run (multiple environments)',
+                vscode.TestRunProfileKind.Run,
+                (request, token) => this.runTests(request, token, this.selectedEnvs?.length ? this.selectedEnvs : this.envNames),
+                false
+            );
+            combinedProfile.configureHandler = () => this.selectEnvs();
+            this.envProfiles.push(combinedProfile);
+        }
+
+        this.outputChannel.appendLine(`[Discovery] Environments: ${envNames.length > 0 ? envNames.join(', ') : '(none)'}`);
+    }
+
+    /**
+     * Create a run profile per named run configuration (codeceptionphp.profiles), replacing the previous ones
+     * Coverage configurations become coverage profiles; several environments run one after another.
+     */
+    private updateNamedProfiles(): void {
+        this.namedProfiles.forEach(profile => profile.dispose());
+
+        const configured = vscode.workspace.getConfiguration('codeceptionphp')
+            .get<Record<string, Omit<NamedRunProfile, 'name'>>>('profiles', {});
+
+        this.namedProfiles = Object.entries(configured).map(([name, settings]) => {
+            const profile: NamedRunProfile = { ...settings, name };
+            const envs = profile.env ? ([] as string[]).concat(profile.env) : undefined;
+
+            return this.testController.createRunProfile(
+                name,
+                profile.coverage ? vscode.TestRunProfileKind.Coverage : vscode.TestRunProfileKind.Run,
+                (request, token) => profile.coverage
+                    ? this.runTestsWithCoverage(request, token, profile, envs)
+                    : this.runTests(request, token, envs, profile),
+                false
+            );
+        });
+
+        if (this.namedProfiles.length > 0) {
+            this.outputChannel.appendLine(`[Profiles] Run profiles: ${Object.keys(configured).join(', ')}`);
+        }
+    }
+
+    /**
+     * Let the user pick how many times a run profile retries failed tests (the setting by default)
+     */
+    private async selectRetryCount(runProfile: vscode.TestRunProfile): Promise<void> {
+        const configured = this.getConfiguration().get<number>('retry.count', 0);
+        const picked = await vscode.window.showQuickPick(
+            [
+                { label: `Use setting (${configured})`, retries: undefined },
+                ...[0, 1, 2, 3, 5].map(retries => ({ label: retries === 0 ? 'No retries' : `Retry up to ${retries} time(s)`, retries })),
+            ],
+            { placeHolder: `Retries of failed tests for the ${runProfile.label} profile` }
+        );
+
+        if (!picked) {
+            return;
+        }
+        if (picked.retries === undefined) {
+            this.retryCounts.delete(runProfile.label);
+        } else {
+            this.retryCounts.set(runProfile.label, picked.retries);
+        }
+    }
+
+    /**
+     * Get how many times a run retries its failed tests: the named profile's retries, the count chosen for
+     * the run profile, or codeceptionphp.retry.count
+     */
+    private getRetryCount(request: vscode.TestRun | vscode.TestRunRequest, testId?: string, profile?: NamedRunProfile): number {
+        const runProfile = (request as vscode.TestRunRequest).profile;
+        return profile?.retries
+            ?? (runProfile ? this.retryCounts.get(runProfile.label) : undefined)
+            ?? this.getConfiguration(testId).get<number>('retry.count', 0);
+    }
+
+    /**
+     * Let the user pick the environments run by the combined profile (all by default)
+     */
+    private async selectEnvs(): Promise<void> {
+        const current = this.selectedEnvs?.length ? this.selectedEnvs : this.envNames;
+        const picked = await vscode.window.showQuickPick(
+            this.envNames.map(env => ({ label: env, picked: current.includes(env) })),
+            { canPickMany: true, placeHolder: 'Environments to run (one test run per environment)' }
+        );
+
+        if (picked) {
+            this.selectedEnvs = picked.map(item => item.label);
+        }
+    }
+
+    /**
+     * Rerun the tests of Codeception's failed tests lists (within the request's selection, if any)
+     */
+    public async rerunFailedTests(request?: vscode.TestRunRequest, token?: vscode.CancellationToken): Promise<void> {
+        await this.refreshFailedTests();
+
+        const isSelected = (test: vscode.TestItem) => {
+            const isWithin = (items: readonly vscode.TestItem[]) => items.some(item => this.isWithin(test, item));
+            return (!request?.include || isWithin(request.include)) && !isWithin(request?.exclude || []);
+        };
+
+        const tests = Array.from(this.failedTests)
+            .map(testId => this.findTestItem(testId))
+            .filter((test): test is vscode.TestItem => test !== undefined && isSelected(test))
+            // Drop tests already covered by a failed file
+            .filter((test, _index, all) => !all.some(other =>
+                other !== test && (test.id.startsWith(`${other.id}::`) || test.id.startsWith(`${other.id}#`))
+            ));
+
+        if (tests.length === 0) {
+            vscode.window.showInformationMessage('No failed tests to rerun.');
+            return;
+        }
+
+        this.outputChannel.appendLine(`[FailedTests] Rerunning ${tests.length} failed test(s)`);
+        const tokenSource = token ? undefined : new vscode.CancellationTokenSource();
+        try {
+            await this.runTests(new vscode.TestRunRequest(tests, undefined, request?.profile), token ?? tokenSource!.token);
+        } finally {
+            tokenSource?.dispose();
+        }
+    }
+
+    /**
+     * Re-read the failed tests list of every project and tag the listed tests
+     * @param profile Named run profile of the run that wrote the lists
+     */
+    private async refreshFailedTests(profile?: NamedRunProfile): Promise<void> {
+        const failedTests = new Set<string>();
+        const visitedProjects = new Set<CodeceptionProject>();
+
+        for (const [suiteId, { project }] of this.suites) {
+            if (visitedProjects.has(project)) {
+                continue;
+            }
+            visitedProjects.add(project);
+
+            const outputDirs = this.getOutputDir(suiteId);
+            const dockerConfig = this.getDockerConfig(suiteId, profile);
+            const entries = await this.failedTestsParser.parseFailedFile(
+                path.join(outputDirs.hostDir, 'failed'),
+                outputDirs.containerDir ? `${outputDirs.containerDir}/failed` : undefined,
+                dockerConfig?.container
+            );
+
+            for (const entry of entries) {
+                const testId = this.resolveFailedEntry(entry, project, suiteId, profile);
+                if (testId) {
+                    failedTests.add(testId);
+                } else {
+                    this.outputChannel.appendLine(`[FailedTests] No test item for ${entry.file}${entry.test ? `:${entry.test}` : ''}`);
+                }
+            }
+        }
+
+        this.failedTests = failedTests;
+        this.applyResultTags();
+    }
+
+    /**
+     * Map an entry of a failed tests list to the ID of its test item
+     */
+    private resolveFailedEntry(
+        entry: FailedTestEntry,
+        project: CodeceptionProject,
+        suiteId: string,
+        profile?: NamedRunProfile
+    ): string | undefined {
+        // Lists written inside a container or runtime may hold its paths
+        const file = this.toHostPath(suiteId, entry.file, profile);
+
+        const [fileItem] = this.getTestsForFile(path.resolve(project.rootDir, file));
+        if (!fileItem || !entry.test) {
+            return fileItem?.id;
+        }
+
+        const testItem = fileItem.children.get(`${fileItem.id}::${entry.test}`);
+        if (!testItem || entry.dataSet === undefined) {
+            return testItem?.id;
+        }
+
+        // Data sets are matched by key, Cest examples by their values
+        let dataSetItem = testItem.children.get(`${testItem.id}#${entry.dataSet}`);
+        testItem.children.forEach(child => {
+            if (!dataSetItem && child.label === entry.dataSet) {
+                dataSetItem = child;
+            }
+        });
+
+        return (dataSetItem ?? testItem).id;
+    }
+
+    /**
+     * Tag the tests of the failed tests lists and the flaky tests of the run history, and untag the others
+     */
+    private applyResultTags(): void {
+        const tagItem = (item: vscode.TestItem) => {
+            for (const [tag, testIds] of [[FAILED_TAG, this.failedTests], [FLAKY_TAG, this.flakyTests]] as const) {
+                const isTagged = testIds.has(item.id);
+                const hasTag = item.tags.some(existing => existing.id === tag.id);
+                if (isTagged && !hasTag) {
+                    item.tags = [...item.tags, tag];
+                } else if (!isTagged && hasTag) {
+                    item.tags = item.tags.filter(existing => existing.id !== tag.id);
+                }
+            }
+            item.children.forEach(tagItem);
+        };
+
+        this.testController.items.forEach(tagItem);
+    }
+
+    /**
+     * Show the recorded results of a test, newest first
+     * @param test Test item (Test Explorer context menu) or ID (Flaky Tests view); picked from the history when omitted
+     */
+    public async showTestHistory(test?: vscode.TestItem | string): Promise<void> {
+        let testId = typeof test === 'string' ? test : test?.id;
+
+        if (!testId) {
+            const picked = await vscode.window.showQuickPick(
+                this.runHistory.getTestIds().map(id => ({ label: this.findTestItem(id)?.label ?? id, description: id, id })),
+                { placeHolder: 'Select a test to show its run history', matchOnDescription: true }
+            );
+            testId = picked?.id;
+        }
+        if (!testId) {
+            return;
+        }
+
+        const label = this.findTestItem(testId)?.label ?? testId;
+        const history = this.runHistory.getTestHistory(testId);
+        if (history.length === 0) {
+            vscode.window.showInformationMessage(`No recorded runs of ${label}.`);
+            return;
+        }
+
+        const icons = { passed: '$(pass)', failed: '$(error)', errored: '$(error)', skipped: '$(debug-step-over)' };
+        await vscode.window.showQuickPick(
+            history.map(entry => ({
+                label: `${icons[entry.result.outcome]} ${entry.result.outcome}${entry.result.failedAttempts ? ` on retry (${entry.result.failedAttempts} failed attempt(s))` : ''}`,
+                description: [
+                    new Date(entry.timestamp).toLocaleString(),
+                    entry.result.duration !== undefined ? `${Math.round(entry.result.duration)} ms` : undefined,
+                    entry.env,
+                    entry.commit?.substring(0, 8),
+                ].filter(Boolean).join(' · '),
+            })),
+            {
+                title: `Run history: ${label}${this.flakyTests.has(testId) ? ' (flaky)' : ''}`,
+                placeHolder: `${history.length} recorded run(s), newest first`,
+            }
+        );
+    }
+
+    /**
+     * Run tests under Xdebug, each with a php-debug session listening for it
+     */
     private async debugTests(request: vscode.TestRunRequest, token: vscode.CancellationToken) {
-        // Debug implementation - would need Xdebug configuration
-        vscode.window.showInformationMessage('Debug support coming soon!');
+        const results = new Map<vscode.TestItem, TestRunResult>();
+        const run = this.trackResults(this.testController.createTestRun(request), results);
+        const queue: vscode.TestItem[] = [];
+
+        if (request.include) {
+            request.include.forEach(test => queue.push(test));
+        } else {
+            this.testController.items.forEach(test => queue.push(test));
+        }
+
+        const cancellationToken = token.onCancellationRequested(() => {
+            this.streamingExecutor.cancel();
+        });
+        const runId = this.coverageManager.createRunId();
+        let hooksPassed = false;
+
+        try {
+            hooksPassed = await this.runBeforeHooks(queue, run, token);
+            if (!hooksPassed) {
+                return;
+            }
+
+            for (const test of queue) {
+                if (token.isCancellationRequested) {
+                    run.skipped(test);
+                    continue;
+                }
+
+                await this.debugTest(test, run, token, this.createRunDir(runId));
+            }
+        } finally {
+            if (hooksPassed) {
+                await this.runAfterHooks(queue, run, token, results);
+            }
+            cancellationToken.dispose();
+            run.end();
+            await this.recordRunHistory(queue, results);
+            await this.finishRun(runId);
+            await this.refreshFailedTests();
+        }
+    }
+
+    /**
+     * Debug a single test item: start a listening debug session, run the test with Xdebug enabled,
+     * and end the session once the process exits
+     */
+    private async debugTest(test: vscode.TestItem, run: vscode.TestRun, token: vscode.CancellationToken, runDir: string) {
+        const config = this.getConfiguration(test.id);
+        const workspaceRoot = this.getWorkspaceRoot(test.id);
+        // Docker (with a container set) and command templates run Codeception away from the host
+        const runsRemotely = this.getExecutionTarget(test.id) === 'template' || this.getDockerConfig(test.id) !== null;
+
+        // Breakpoints are set on host files; Xdebug reports container paths
+        const runtimeWorkdir = runsRemotely ? this.getRuntimeWorkdir(test.id) : undefined;
+        const pathMappings = runtimeWorkdir && runtimeWorkdir !== workspaceRoot
+            ? { [runtimeWorkdir]: workspaceRoot }
+            : undefined;
+
+        const listener = await this.debugSessions.start(this.getRootForTest(test.id)?.folder, {
+            configurationName: config.get<string>('debug.launchConfiguration', '') || undefined,
+            port: config.get<number>('debug.port', 9003),
+            pathMappings,
+        });
+
+        if (!listener) {
+            run.errored(test, new vscode.TestMessage('Could not start a PHP debug session. See the output channel for details.'));
+            return;
+        }
+
+        try {
+            run.started(test);
+
+            const debug = {
+                clientHost: config.get<string>('debug.clientHost', '') || (runsRemotely ? 'host.docker.internal' : 'localhost'),
+                port: listener.port,
+            };
+            const binary = config.get<string>('binary.path', 'vendor/bin/codecept');
+            const command = this.buildTestCommand(binary, test.id, { debug, runDir });
+            run.appendOutput(`Debugging: ${formatCommand(command)}\r\n`);
+
+            // Docker and templates pass the Xdebug variables in the command; local runs get them in the process environment
+            // No timeout: the test may sit on a breakpoint indefinitely
+            await this.executeTestWithStreaming(test, run, command, token, {
+                processEnv: runsRemotely ? undefined : this.getXdebugEnv(debug),
+                timeout: 0,
+                runDir,
+            });
+        } finally {
+            await this.debugSessions.stop(listener);
+        }
+    }
+
+    /**
+     * Environment variables making Xdebug 3 start a step debugging session against the client
+     */
+    private getXdebugEnv(debug: { clientHost: string; port: number }): Record<string, string> {
+        return {
+            XDEBUG_MODE: 'debug',
+            XDEBUG_TRIGGER: '1',
+            XDEBUG_CONFIG: `client_host=${debug.clientHost} client_port=${debug.port}`,
+        };
     }
 }
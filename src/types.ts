@@ -11,14 +11,104 @@ export interface TestMethod {
         dataProvider?: string;
         depends?: string[];
         groups?: string[];
+        /** Environments from @env / #[Env]; the test only runs in these */
+        envs?: string[];
+        /** Skip reason from #[Skip] / @skip (empty string when no reason given) */
+        skip?: string;
+        /** Sources of @example annotations and #[Examples(...)] attributes, e.g. '["admin", "secret"]' */
+        examples?: string[];
     };
+    /** Datasets resolved statically from the method's data provider, or its examples */
+    dataSets?: DataSet[];
+}
+
+/**
+ * A single dataset yielded or returned by a data provider method
+ */
+export interface DataSet {
+    /** Dataset key as PHPUnit reports it: the string key or the numeric index */
+    key: string;
+    /** Whether the key is an integer index (reported as "#0") rather than a name */
+    isIndex: boolean;
+    /** Display label (example values); defaults to the key */
+    label?: string;
+    line: number;
+    endLine: number;
 }
 
 export interface ParsedTestFile {
     className?: string;
+    /** Namespaced class (or trait) name, without leading backslash */
+    fullClassName?: string;
+    /** Fully-qualified name of the parent class */
+    parentClass?: string;
+    /** Fully-qualified names of the traits used by the class */
+    traits?: string[];
+    isAbstract?: boolean;
+    isTrait?: boolean;
     methods: TestMethod[];
 }
 
+/**
+ * A test method resolved through the class hierarchy, with the file that declares it
+ */
+export interface ResolvedTestMethod {
+    method: TestMethod;
+    filePath: string;
+}
+
+/**
+ * Type definitions for Gherkin (.feature) test parsing
+ */
+export interface GherkinExampleRow {
+    values: string[];
+    line: number;
+    tags: string[];
+}
+
+export interface GherkinScenario {
+    name: string;
+    line: number;
+    endLine: number;
+    isOutline: boolean;
+    tags: string[];
+    examples: GherkinExampleRow[];
+}
+
+export interface ParsedFeatureFile {
+    name: string;
+    line: number;
+    tags: string[];
+    scenarios: GherkinScenario[];
+}
+
+/**
+ * Codeception project configuration (codeception.yml and *.suite.yml)
+ */
+export interface CodeceptionSuite {
+    name: string;
+    /** Absolute directory holding the suite's tests */
+    path: string;
+    /** Actor class of the suite (e.g. AcceptanceTester); its actions are generated by `codecept build` */
+    actor?: string;
+}
+
+export interface CodeceptionProject {
+    /** Absolute path of the codeception.yml (or .dist.yml) file */
+    configPath: string;
+    /** Directory of the config file; Codeception resolves all paths from here */
+    rootDir: string;
+    testsDir: string;
+    outputDir: string;
+    /** Directory of actors, helpers and the generated actor actions (paths.support) */
+    supportDir: string;
+    suites: CodeceptionSuite[];
+    /** Environment names, from the *.yml files in paths.envs (tests/_envs) */
+    envs: string[];
+    /** Projects pulled in through `include:` (monorepos) */
+    includes: CodeceptionProject[];
+}
+
 /**
  * Coverage-related type definitions
  */
@@ -47,6 +137,8 @@ export interface CoverageParseResult {
 export interface JUnitTestResult {
     name: string;
     className?: string;
+    // Test file, as written where Codeception ran (usually absolute)
+    file?: string;
     status: 'passed' | 'failed' | 'skipped' | 'error';
     time?: number;
     failure?: {
@@ -61,3 +153,126 @@ export interface JUnitTestResult {
     };
 }
 
+
+/**
+ * An entry of Codeception's failed tests list (<paths.output>/failed)
+ */
+export interface FailedTestEntry {
+    // Test file, relative to the project root (or absolute)
+    file: string;
+    // Test method or scenario name; absent when the whole file failed to load
+    test?: string;
+    // Data set key ("with data set ...") or Cest example values ("method | ...")
+    dataSet?: string;
+}
+
+/**
+ * Per-test event reported by the adapter's Codeception extension (resources/codeception/CodeceptionVscodeReporter.php)
+ */
+export interface TestResultEvent {
+    event: 'started' | 'passed' | 'failed' | 'errored' | 'skipped' | 'incomplete';
+    // Test full name, in the format of Codeception's failed tests list ("path/FileTest.php:testName ...")
+    test: string;
+    file?: string;
+    // Seconds (result events only)
+    duration?: number;
+    message?: string;
+    trace?: string;
+    // Line of the test file where the failure happened
+    line?: number;
+    // Compared values of a failed assertion
+    expected?: string;
+    actual?: string;
+}
+
+/**
+ * Stage of a test run at which hook commands run (codeceptionphp.hooks.*)
+ */
+export type HookStage = 'beforeRun' | 'afterRun' | 'onFailure';
+
+/**
+ * A configured hook command, ready to execute
+ */
+export interface HookCommand {
+    // Command as configured
+    command: string;
+    // Executable and arguments to spawn: a shell running the command, wrapped in docker exec when Docker is enabled
+    argv: string[];
+    cwd: string;
+}
+
+/**
+ * Outcome of a test in a recorded run (codeceptionphp.history.*)
+ */
+export interface TestRunResult {
+    outcome: 'passed' | 'failed' | 'errored' | 'skipped';
+    // Milliseconds, when reported
+    duration?: number;
+    // Attempts that failed before the test passed on a retry (codeceptionphp.retry.count)
+    failedAttempts?: number;
+}
+
+/**
+ * A test run stored in the run history
+ */
+export interface RunHistoryEntry {
+    // When the run ended (epoch milliseconds)
+    timestamp: number;
+    // HEAD of the workspace's git repository during the run
+    commit?: string;
+    // Hash of the uncommitted changes during the run (edits between runs on one commit are not flakiness)
+    workingTree?: string;
+    // Codeception environment (--env) the run used
+    env?: string;
+    // Results by test item ID
+    results: Record<string, TestRunResult>;
+}
+
+/**
+ * A test that both passed and failed on the same commit and working tree (and environment), or passed on a retry
+ */
+export interface FlakyTest {
+    testId: string;
+    commit: string;
+    env?: string;
+    passed: number;
+    failed: number;
+    // When it last ran (epoch milliseconds)
+    lastRun: number;
+}
+
+/**
+ * Where Codeception runs: on the host, through docker exec, or through a command template (ddev, Lando, ...)
+ */
+export type ExecutionTarget = 'local' | 'docker' | 'template';
+
+/**
+ * A named run configuration (codeceptionphp.profiles), run through its own test run profile
+ */
+export interface NamedRunProfile {
+    name: string;
+    // Replaces codeceptionphp.binary.args
+    args?: string;
+    // Environment variables of the Codeception process (passed with -e in Docker)
+    envVars?: Record<string, string>;
+    // Replace codeceptionphp.groups.include / codeceptionphp.groups.exclude
+    groups?: { include?: string[]; exclude?: string[] };
+    // Codeception environment(s) passed with --env, one test run each
+    env?: string | string[];
+    // Collect coverage (the profile becomes a coverage profile)
+    coverage?: boolean;
+    // Where Codeception runs, overriding codeceptionphp.docker.enabled and codeceptionphp.runner.*
+    target?: ExecutionTarget;
+    // Times to rerun failed tests, overriding codeceptionphp.retry.count (not applied to coverage profiles)
+    retries?: number;
+}
+
+/**
+ * A command template running Codeception through another tool (codeceptionphp.runner.*)
+ */
+export interface RunnerTemplate {
+    // Argument vector with ${command}, ${workdir} and ${env} placeholders
+    command: string[];
+    // Path of the workspace folder in the runtime (container or VM), for ${workdir} and path mapping
+    workdir?: string;
+}